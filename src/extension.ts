@@ -2,14 +2,147 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import axios from 'axios';
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
+import {
+  BranchTaskMapping,
+  DEFAULT_BRANCH_PATTERN,
+  DEFAULT_MONDAY_BOARD_ID,
+  HOOK_CONFIG_FILE,
+  HOOK_DIR_NAME,
+  HOOK_SCRIPT_FILE,
+  HookConfig,
+  MONDAY_COMMIT_QUEUE_FILE,
+  QueuedCommit,
+  QueuedEvent,
+  QueuedPush,
+  extractTaskId,
+  getMondayTaskUrl,
+  getMondayTasksFile,
+  readBranchTaskMappingsFile,
+  resolveTaskId,
+} from './taskResolver';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+// ========== Output Log ==========
+
+let outputChannel: vscode.OutputChannel | null = null;
+
+/** Details for the "Toggl Track Auto" output channel (the console before activation). */
+function log(message: string) {
+  const line = `[${new Date().toLocaleTimeString()}] ${message}`;
+  if (outputChannel) {
+    outputChannel.appendLine(line);
+  } else {
+    console.log(line);
+  }
+}
+
+function logError(message: string, error?: any) {
+  console.error(message, error ?? '');
+  log(error ? `${message} ${error?.message || error}` : message);
+}
+
+/** A notification whose details are in the output channel, with a button to open it. */
+function showMessageWithLog(kind: 'info' | 'warning' | 'error', message: string) {
+  const show = kind === 'error' ? vscode.window.showErrorMessage
+    : kind === 'warning' ? vscode.window.showWarningMessage
+    : vscode.window.showInformationMessage;
+  show(message, 'Show Log').then(choice => {
+    if (choice === 'Show Log') outputChannel?.show();
+  });
+}
+
+// ========== API Tokens ==========
+
+// Tokens live in SecretStorage, which Settings Sync never carries to other machines
+const TOGGL_TOKEN_SECRET = 'togglTrackAuto.apiToken';
+const MONDAY_TOKEN_SECRET = 'togglTrackAuto.mondayApiToken';
+
+let secretStorage: vscode.SecretStorage | null = null;
+// Read once at activation (and on change) so callers can stay synchronous
+const cachedTokens = new Map<string, string>();
+
+function getTogglToken(): string {
+  return cachedTokens.get(TOGGL_TOKEN_SECRET) || '';
+}
 
-// Monday.com API token - set via VS Code settings only
 function getMondayToken(): string {
-  return vscode.workspace.getConfiguration('togglTrackAuto').get<string>('mondayApiToken') || '';
+  return cachedTokens.get(MONDAY_TOKEN_SECRET) || '';
+}
+
+async function storeToken(key: string, value: string) {
+  if (!secretStorage) throw new Error('Secret storage is not available yet');
+  await secretStorage.store(key, value);
+  cachedTokens.set(key, value);
+}
+
+async function removeToken(key: string) {
+  if (!secretStorage) throw new Error('Secret storage is not available yet');
+  await secretStorage.delete(key);
+  cachedTokens.set(key, '');
+}
+
+/**
+ * Move a token still sitting in settings (user, workspace or folder level) into
+ * secret storage and remove it from every settings file it was found in.
+ */
+async function migrateTokenSetting(key: string) {
+  const setting = key.replace('togglTrackAuto.', '');
+  const config = vscode.workspace.getConfiguration('togglTrackAuto');
+  const inspected = config.inspect<string>(setting);
+  const folderConfigs = (vscode.workspace.workspaceFolders || [])
+    .map(folder => vscode.workspace.getConfiguration('togglTrackAuto', folder.uri))
+    .filter(folderConfig => folderConfig.inspect<string>(setting)?.workspaceFolderValue !== undefined);
+
+  const value = folderConfigs.map(c => c.inspect<string>(setting)?.workspaceFolderValue).find(v => v)
+    || inspected?.workspaceValue || inspected?.globalValue;
+  // A value in settings is the most recent one the user entered, so it wins
+  if (value && secretStorage && value !== (await secretStorage.get(key))) {
+    await storeToken(key, value);
+    log(`moved ${setting} from settings to secret storage`);
+  }
+
+  if (inspected?.globalValue !== undefined) {
+    await config.update(setting, undefined, vscode.ConfigurationTarget.Global);
+  }
+  if (inspected?.workspaceValue !== undefined) {
+    await config.update(setting, undefined, vscode.ConfigurationTarget.Workspace);
+  }
+  for (const folderConfig of folderConfigs) {
+    await folderConfig.update(setting, undefined, vscode.ConfigurationTarget.WorkspaceFolder);
+  }
+}
+
+async function initTokenStorage(context: vscode.ExtensionContext) {
+  secretStorage = context.secrets;
+  for (const key of [TOGGL_TOKEN_SECRET, MONDAY_TOKEN_SECRET]) {
+    try {
+      await migrateTokenSetting(key);
+    } catch (error) {
+      console.error(`Toggl: could not migrate ${key} to secret storage:`, error);
+    }
+    cachedTokens.set(key, (await context.secrets.get(key)) || '');
+  }
+
+  context.subscriptions.push(
+    // Another window (or the setup wizard) changed a token
+    context.secrets.onDidChange(async e => {
+      if (e.key === TOGGL_TOKEN_SECRET || e.key === MONDAY_TOKEN_SECRET) {
+        cachedTokens.set(e.key, (await context.secrets.get(e.key)) || '');
+      }
+    }),
+    // A token pasted into settings by hand is moved out again right away
+    vscode.workspace.onDidChangeConfiguration(async e => {
+      for (const key of [TOGGL_TOKEN_SECRET, MONDAY_TOKEN_SECRET]) {
+        if (e.affectsConfiguration(key)) {
+          await migrateTokenSetting(key).catch(error => console.error(`Toggl: could not migrate ${key} to secret storage:`, error));
+        }
+      }
+    })
+  );
 }
 
 function isMondayEnabled(): boolean {
@@ -19,22 +152,12 @@ function isMondayEnabled(): boolean {
 // ========== Monday.com Task Integration ==========
 
 const MONDAY_API_URL = 'https://api.monday.com/v2';
-const MONDAY_BOARD_URL_BASE = 'https://pivot584586.monday.com/boards';
-
 interface MondayTask {
   id: string;
   name: string;
   boardId: string;
 }
 
-interface BranchTaskMapping {
-  [branch: string]: {
-    taskId: string;
-    taskName: string;
-    boardId: string;
-    url: string;
-  };
-}
 
 // ========== Monday.com Detailed Task Types ==========
 
@@ -86,11 +209,7 @@ interface MondayDetailedTask {
 }
 
 function getMondayBoardId(): string {
-  return vscode.workspace.getConfiguration('togglTrackAuto').get<string>('mondayBoardId') || '4176868787';
-}
-
-function getMondayTaskUrl(boardId: string, taskId: string): string {
-  return `${MONDAY_BOARD_URL_BASE}/${boardId}/pulses/${taskId}`;
+  return vscode.workspace.getConfiguration('togglTrackAuto').get<string>('mondayBoardId') || DEFAULT_MONDAY_BOARD_ID;
 }
 
 function slugify(text: string): string {
@@ -103,7 +222,143 @@ function slugify(text: string): string {
     .substring(0, 60);
 }
 
+// ========== Active Repository ==========
+
+async function getGitApi(): Promise<any | null> {
+  // VS Code's built-in Git extension API (works in Cursor too)
+  try {
+    const gitExtension = vscode.extensions.getExtension('vscode.git');
+    if (!gitExtension) return null;
+    const git = gitExtension.isActive ? gitExtension.exports : await gitExtension.activate();
+    return git.getAPI(1) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the git repository that owns a file. Only files inside the workspace
+ * count, so opening e.g. user settings doesn't switch the tracked repo.
+ */
+async function findRepositoryRoot(uri: vscode.Uri): Promise<string | null> {
+  if (uri.scheme !== 'file') return null;
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  if (!folder) return null;
+
+  const api = await getGitApi();
+  const repo = api?.getRepository?.(uri);
+  if (repo) return repo.rootUri.fsPath;
+
+  // Fallback: walk up to the nearest .git (a file for worktrees/submodules)
+  let dir = path.dirname(uri.fsPath);
+  while (dir.startsWith(folder.uri.fsPath)) {
+    if (fs.existsSync(path.join(dir, '.git'))) return dir;
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return folder.uri.fsPath;
+}
+
+/**
+ * Follows the repository the user is working in: the one owning the active
+ * editor, or the last repository selected in the SCM view. Switches are
+ * debounced so flipping between editors of different repos doesn't thrash.
+ */
+class ActiveRepositoryTracker implements vscode.Disposable {
+  private root: string | null = null;
+  private pendingRoot: string | null = null;
+  private switchTimer: NodeJS.Timeout | null = null;
+  private disposables: vscode.Disposable[] = [];
+  private watchedRepos = new Set<string>();
+
+  private _onDidChange = new vscode.EventEmitter<string | null>();
+  readonly onDidChange = this._onDidChange.event;
+
+  get current(): string | null {
+    return this.root;
+  }
+
+  async initialize(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    this.root = (editor && await findRepositoryRoot(editor.document.uri)) || this.getDefaultRoot();
+
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(async (e) => {
+        if (!e) return;
+        const root = await findRepositoryRoot(e.document.uri);
+        if (root) this.propose(root);
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        // The tracked folder may have been removed; switch immediately
+        const stillOpen = (vscode.workspace.workspaceFolders || []).some(f => this.root?.startsWith(f.uri.fsPath));
+        if (!stillOpen) this.root = this.getDefaultRoot();
+        this._onDidChange.fire(this.root);
+      }),
+    );
+
+    const api = await getGitApi();
+    if (api) {
+      (api.repositories || []).forEach((repo: any) => this.watchScmSelection(repo));
+      if (api.onDidOpenRepository) {
+        this.disposables.push(api.onDidOpenRepository((repo: any) => this.watchScmSelection(repo)));
+      }
+    }
+  }
+
+  private watchScmSelection(repo: any) {
+    const root = repo.rootUri?.fsPath;
+    if (!root || this.watchedRepos.has(root) || !repo.ui?.onDidChange) return;
+    this.watchedRepos.add(root);
+    this.disposables.push(repo.ui.onDidChange(() => {
+      if (repo.ui.selected) this.propose(root);
+    }));
+  }
+
+  private getDefaultRoot(): string | null {
+    const folders = vscode.workspace.workspaceFolders;
+    return folders && folders.length > 0 ? folders[0].uri.fsPath : null;
+  }
+
+  private propose(root: string) {
+    if (root === this.root) {
+      // Came back before the delay ran out - cancel the pending switch
+      this.cancelPending();
+      return;
+    }
+    if (root === this.pendingRoot) return;
+
+    this.cancelPending();
+    this.pendingRoot = root;
+    const delaySeconds = vscode.workspace.getConfiguration('togglTrackAuto').get<number>('repositorySwitchDelaySeconds') ?? 5;
+    this.switchTimer = setTimeout(() => {
+      this.switchTimer = null;
+      this.pendingRoot = null;
+      this.root = root;
+      log(`active repository is now ${root}`);
+      this._onDidChange.fire(root);
+    }, delaySeconds * 1000);
+  }
+
+  private cancelPending() {
+    if (this.switchTimer) {
+      clearTimeout(this.switchTimer);
+      this.switchTimer = null;
+    }
+    this.pendingRoot = null;
+  }
+
+  dispose() {
+    this.cancelPending();
+    this.disposables.forEach(d => d.dispose());
+    this._onDidChange.dispose();
+  }
+}
+
+let activeRepository: ActiveRepositoryTracker | null = null;
+
 function getWorkspaceRoot(): string | null {
+  if (activeRepository?.current) return activeRepository.current;
   const folders = vscode.workspace.workspaceFolders;
   return folders && folders.length > 0 ? folders[0].uri.fsPath : null;
 }
@@ -111,20 +366,12 @@ function getWorkspaceRoot(): string | null {
 function getMondayTasksFilePath(): string | null {
   const root = getWorkspaceRoot();
   if (!root) return null;
-  return path.join(root, '.vscode', 'monday-tasks.json');
+  return getMondayTasksFile(root);
 }
 
 function readBranchTaskMappings(): BranchTaskMapping {
-  const filePath = getMondayTasksFilePath();
-  if (!filePath) return {};
-  try {
-    if (fs.existsSync(filePath)) {
-      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-    }
-  } catch {
-    // ignore
-  }
-  return {};
+  const root = getWorkspaceRoot();
+  return root ? readBranchTaskMappingsFile(root) : {};
 }
 
 function writeBranchTaskMappings(mappings: BranchTaskMapping): void {
@@ -233,36 +480,27 @@ async function fetchDetailedMondayTask(taskId: string): Promise<MondayDetailedTa
 
 // ========== Extract task ID from branch ==========
 
+function getBranchPattern(): string {
+  return vscode.workspace.getConfiguration('togglTrackAuto').get<string>('branchPattern') || DEFAULT_BRANCH_PATTERN;
+}
+
 function extractTaskIdFromBranch(branch: string): string | null {
-  const config = vscode.workspace.getConfiguration('togglTrackAuto');
-  const pattern = config.get<string>('branchPattern') || '(\\d{6,})';
-  const regex = new RegExp(pattern);
-  const match = branch.match(regex);
-  return match ? match[1] : null;
+  return extractTaskId(branch, getBranchPattern());
 }
 
 async function getCurrentBranchName(): Promise<string | null> {
+  const root = getWorkspaceRoot();
+  if (!root) return null;
+
   // Try VS Code's built-in Git extension API first (works in Cursor too)
-  try {
-    const gitExtension = vscode.extensions.getExtension('vscode.git');
-    if (gitExtension) {
-      const git = gitExtension.isActive ? gitExtension.exports : await gitExtension.activate();
-      const api = git.getAPI(1);
-      if (api && api.repositories.length > 0) {
-        const repo = api.repositories[0];
-        const head = repo.state?.HEAD;
-        if (head?.name) {
-          return head.name;
-        }
-      }
-    }
-  } catch {
-    // Fall through to exec fallback
+  const api = await getGitApi();
+  const repo = (api?.repositories || []).find((r: any) => r.rootUri?.fsPath === root);
+  const head = repo?.state?.HEAD;
+  if (head?.name) {
+    return head.name;
   }
 
   // Fallback: exec git command
-  const root = getWorkspaceRoot();
-  if (!root) return null;
   try {
     const { stdout } = await execAsync('git rev-parse --abbrev-ref HEAD', { cwd: root });
     return stdout.trim();
@@ -271,19 +509,107 @@ async function getCurrentBranchName(): Promise<string | null> {
   }
 }
 
-function resolveTaskIdForBranch(branch: string): string | null {
-  // First check explicit mapping override in .vscode/monday-tasks.json
-  const mappings = readBranchTaskMappings();
-  const mapping = mappings[branch];
-  if (mapping?.taskId) return mapping.taskId;
+// ========== In-Progress Git Operations ==========
+
+type GitOperationKind = 'rebase' | 'merge' | 'bisect' | 'cherry-pick' | 'revert' | 'detached';
+
+interface GitOperationState {
+  kind: GitOperationKind;
+  // Branch the operation started from, when it can be determined
+  originBranch: string | null;
+}
+
+const gitDirCache: Map<string, string> = new Map();
+// Last real (non-detached, no operation) branch seen per repository root
+const lastRealBranches: Map<string, string> = new Map();
+
+async function getGitDir(root: string): Promise<string | null> {
+  if (gitDirCache.has(root)) return gitDirCache.get(root)!;
+  try {
+    // --absolute-git-dir also resolves worktrees, where .git is a file
+    const { stdout } = await execAsync('git rev-parse --absolute-git-dir', { cwd: root });
+    const gitDir = stdout.trim();
+    gitDirCache.set(root, gitDir);
+    return gitDir;
+  } catch {
+    return null;
+  }
+}
+
+function readGitFile(gitDir: string, name: string): string | null {
+  try {
+    return fs.readFileSync(path.join(gitDir, name), 'utf-8').trim();
+  } catch {
+    return null;
+  }
+}
 
-  // Fallback: extract task ID from branch name pattern
-  const fromBranch = extractTaskIdFromBranch(branch);
-  if (fromBranch) return fromBranch;
+function stripHeadsPrefix(ref: string | null): string | null {
+  if (!ref) return null;
+  return ref.replace(/^refs\/heads\//, '') || null;
+}
 
+/**
+ * Detect rebases, merges, bisects, cherry-picks/reverts and detached
+ * checkouts from the files git leaves in the git dir while they run.
+ */
+async function detectGitOperation(root: string, branch: string | null): Promise<GitOperationState | null> {
+  const gitDir = await getGitDir(root);
+  if (!gitDir) return null;
+  const headBranch = branch && branch !== 'HEAD' ? branch : null;
+
+  for (const dir of ['rebase-merge', 'rebase-apply']) {
+    if (fs.existsSync(path.join(gitDir, dir))) {
+      return { kind: 'rebase', originBranch: stripHeadsPrefix(readGitFile(gitDir, `${dir}/head-name`)) || headBranch };
+    }
+  }
+  if (fs.existsSync(path.join(gitDir, 'BISECT_LOG'))) {
+    // BISECT_START holds the branch (or commit) bisect started from
+    const start = readGitFile(gitDir, 'BISECT_START');
+    return { kind: 'bisect', originBranch: start && !/^[0-9a-f]{40,64}$/.test(start) ? stripHeadsPrefix(start) : headBranch };
+  }
+  if (fs.existsSync(path.join(gitDir, 'MERGE_HEAD'))) {
+    return { kind: 'merge', originBranch: headBranch };
+  }
+  if (fs.existsSync(path.join(gitDir, 'CHERRY_PICK_HEAD'))) {
+    return { kind: 'cherry-pick', originBranch: headBranch };
+  }
+  if (fs.existsSync(path.join(gitDir, 'REVERT_HEAD'))) {
+    return { kind: 'revert', originBranch: headBranch };
+  }
+  if (!headBranch) {
+    // Tag, PR ref or commit checked out directly
+    return { kind: 'detached', originBranch: null };
+  }
   return null;
 }
 
+/**
+ * The branch time should be attributed to: the checked-out branch, or while a
+ * git operation is in progress, the branch it started from (falling back to
+ * the last real branch seen in this repo).
+ */
+async function getTrackedBranch(): Promise<{ branch: string | null; operation: GitOperationState | null }> {
+  const root = getWorkspaceRoot();
+  if (!root) return { branch: null, operation: null };
+
+  const branch = await getCurrentBranchName();
+  if (!branch) return { branch: null, operation: null };
+
+  const operation = await detectGitOperation(root, branch);
+  if (!operation) {
+    lastRealBranches.set(root, branch);
+    return { branch, operation: null };
+  }
+  const originBranch = operation.originBranch || lastRealBranches.get(root) || null;
+  return { branch: originBranch, operation: { ...operation, originBranch } };
+}
+
+function resolveTaskIdForBranch(branch: string): string | null {
+  // Same resolution as the git hooks: .vscode/monday-tasks.json first, then branchPattern
+  return resolveTaskId(branch, readBranchTaskMappings(), getBranchPattern());
+}
+
 // ========== Helper: get column value ==========
 
 function getColumnValue(task: MondayDetailedTask, titleOrId: string): string {
@@ -324,11 +650,17 @@ class MondayTaskTreeProvider implements vscode.TreeDataProvider<MondayTaskItem>
   private task: MondayDetailedTask | null = null;
   private taskUrl: string = '';
   private noTaskLinked: boolean = true;
+  private time: TaskTimeSummary | null = null;
 
   refresh(): void {
     this._onDidChangeTreeData.fire();
   }
 
+  setTime(time: TaskTimeSummary | null): void {
+    this.time = time;
+    this.refresh();
+  }
+
   setTask(task: MondayDetailedTask | null, url: string): void {
     this.task = task;
     this.taskUrl = url;
@@ -340,6 +672,7 @@ class MondayTaskTreeProvider implements vscode.TreeDataProvider<MondayTaskItem>
     this.task = null;
     this.taskUrl = '';
     this.noTaskLinked = true;
+    this.time = null;
     this.refresh();
   }
 
@@ -442,6 +775,30 @@ class MondayTaskTreeProvider implements vscode.TreeDataProvider<MondayTaskItem>
       ));
     }
 
+    // Tracked time (from Toggl) against the estimate column
+    if (this.time) {
+      const time = this.time;
+      const timeChildren = [
+        new MondayTaskItem('Today', vscode.TreeItemCollapsibleState.None, undefined, { description: formatDuration(time.today) }),
+        new MondayTaskItem('This week', vscode.TreeItemCollapsibleState.None, undefined, { description: formatDuration(time.week) }),
+        new MondayTaskItem(`Last ${time.totalDays} days`, vscode.TreeItemCollapsibleState.None, undefined, { description: formatDuration(time.total) }),
+      ];
+      let description = formatDuration(time.total);
+      let color = 'charts.blue';
+      if (time.estimate) {
+        const ratio = time.total / 3600 / time.estimate;
+        description = `${formatProgressBar(ratio)} ${Math.round(ratio * 100)}% of ${time.estimate}h`;
+        color = ratio > 1 ? 'charts.red' : ratio > 0.8 ? 'charts.orange' : 'charts.green';
+        timeChildren.push(new MondayTaskItem('Estimate', vscode.TreeItemCollapsibleState.None, undefined, { description: `${time.estimate}h` }));
+      }
+      items.push(new MondayTaskItem(
+        'Time',
+        vscode.TreeItemCollapsibleState.Collapsed,
+        timeChildren,
+        { description, iconPath: new vscode.ThemeIcon('clock', new vscode.ThemeColor(color)) }
+      ));
+    }
+
     // Description (from column_values - look for long text or text columns)
     const descriptionCol = task.column_values.find(
       c => c.id === 'long_text' || c.id === 'text' || (c.column?.title || "").toLowerCase().includes('description') || (c.column?.title || "").toLowerCase().includes('notes')
@@ -726,6 +1083,7 @@ class MondayWebviewProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
   private _task: MondayDetailedTask | null = null;
   private _url: string = '';
+  private _time: TaskTimeSummary | null = null;
 
   constructor(private readonly _extensionUri: vscode.Uri) {}
 
@@ -806,6 +1164,12 @@ class MondayWebviewProvider implements vscode.WebviewViewProvider {
   setNoTask() {
     this._task = null;
     this._url = '';
+    this._time = null;
+    this._updateWebview();
+  }
+
+  setTime(time: TaskTimeSummary | null) {
+    this._time = time;
     this._updateWebview();
   }
 
@@ -852,6 +1216,22 @@ class MondayWebviewProvider implements vscode.WebviewViewProvider {
     if (person) metaRows.push('<div class="meta-row"><span class="icon">\u{1F464}</span><span class="meta-label">Assigned</span><span class="meta-val">' + esc(person) + '</span></div>');
     if (group) metaRows.push('<div class="meta-row"><span class="icon">\u{1F4C1}</span><span class="meta-label">Group</span><span class="meta-val" style="color:#9c27b0">' + esc(group) + '</span></div>');
 
+    // Tracked time vs estimate
+    let timeHtml = '';
+    if (this._time) {
+      const t = this._time;
+      const stat = (label: string, seconds: number) =>
+        '<div class="time-stat"><b>' + formatDuration(seconds) + '</b><span>' + label + '</span></div>';
+      let progress = '';
+      if (t.estimate) {
+        const ratio = t.total / 3600 / t.estimate;
+        const barColor = ratio > 1 ? 'var(--monday-red)' : ratio > 0.8 ? 'var(--monday-orange)' : 'var(--monday-green)';
+        progress = '<div class="progress"><div style="width:' + Math.min(100, ratio * 100).toFixed(1) + '%;background:' + barColor + '"></div></div>' +
+          '<div class="progress-label">' + Math.round(ratio * 100) + '% of ' + t.estimate + 'h estimate</div>';
+      }
+      timeHtml = '<div class="time-stats">' + stat('Today', t.today) + stat('This week', t.week) + stat('Last ' + t.totalDays + ' days', t.total) + '</div>' + progress;
+    }
+
     // Updates
     const updatesHtml: string[] = [];
     if (task.updates && task.updates.length > 0) {
@@ -971,6 +1351,13 @@ class MondayWebviewProvider implements vscode.WebviewViewProvider {
       '.badge .dot { width: 8px; height: 8px; border-radius: 50%; flex-shrink: 0; }',
       '',
       '.section { font-size: 13px; font-weight: 600; color: #fff; margin: 20px 0 10px; padding-bottom: 8px; border-bottom: 1px solid var(--monday-border); }',
+      '.time-stats { display: flex; gap: 6px; margin-bottom: 8px; }',
+      '.time-stat { flex: 1; padding: 8px; background: var(--monday-card); border: 1px solid var(--monday-border); border-radius: 8px; text-align: center; }',
+      '.time-stat b { display: block; font-size: 14px; color: #fff; }',
+      '.time-stat span { font-size: 11px; color: var(--monday-text2); }',
+      '.progress { height: 6px; background: var(--monday-card); border-radius: 3px; overflow: hidden; }',
+      '.progress div { height: 100%; border-radius: 3px; }',
+      '.progress-label { font-size: 11px; color: var(--monday-text2); margin: 4px 0 12px; }',
       '.section .count { font-weight: 400; color: var(--monday-text2); }',
       '',
       '.update { margin: 0 0 6px; background: var(--monday-card); border: 1px solid var(--monday-border); border-radius: 8px; overflow: hidden; }',
@@ -1033,6 +1420,7 @@ class MondayWebviewProvider implements vscode.WebviewViewProvider {
         (person ? '<span class="badge">\u{1F464} ' + esc(person) + '</span>' : '') +
         (group ? '<span class="badge" style="color:var(--accent2)">\u{1F4C1} ' + esc(group) + '</span>' : '') +
       '</div>',
+      timeHtml,
       updatesHtml.length ? '<div class="section">\u{1F4AC} Updates <span class="count">(' + task.updates.length + ')</span></div>' + updatesHtml.join('\n') : '',
       subHtml.length ? '<div class="section">\u{1F4CB} Sub-Items <span class="count">(' + task.subitems.length + ')</span></div>' + subHtml.join('\n') : '',
       '<button class="remap-btn" onclick="vscode.postMessage({type:\'remapTask\'})">🔄 Remap Branch to Different Task</button>',
@@ -1073,6 +1461,9 @@ class MondaySidebarController {
   private webviewProvider: MondayWebviewProvider | null = null;
   private lastBranch: string = '';
   private lastTaskId: string = '';
+  private lastRoot: string = '';
+  private currentTask: MondayDetailedTask | null = null;
+  private overEstimateWarned: Set<string> = new Set();
 
   constructor(treeProvider: MondayTaskTreeProvider) {
     this.treeProvider = treeProvider;
@@ -1083,7 +1474,8 @@ class MondaySidebarController {
   }
 
   async update(): Promise<void> {
-    const branch = await getCurrentBranchName();
+    // Keeps showing the originating branch's task during rebases, bisects etc.
+    const { branch } = await getTrackedBranch();
     if (!branch) {
       this.treeProvider.setNoTask();
       clearContextFiles();
@@ -1101,11 +1493,13 @@ class MondaySidebarController {
       return;
     }
 
-    // Only re-fetch if branch or task ID changed
-    if (branch === this.lastBranch && taskId === this.lastTaskId) {
+    // Only re-fetch if repo, branch or task ID changed
+    const root = getWorkspaceRoot() || '';
+    if (root === this.lastRoot && branch === this.lastBranch && taskId === this.lastTaskId) {
       return;
     }
 
+    this.lastRoot = root;
     this.lastBranch = branch;
     this.lastTaskId = taskId;
 
@@ -1113,10 +1507,12 @@ class MondaySidebarController {
     const url = getMondayTaskUrl(boardId, taskId);
 
     const task = await fetchDetailedMondayTask(taskId);
+    this.currentTask = task;
     if (task) {
       this.treeProvider.setTask(task, url);
       this.webviewProvider?.setTask(task, url);
       await writeContextFiles(task, url);
+      await this.refreshTime();
     } else {
       this.treeProvider.setNoTask();
       this.webviewProvider?.setNoTask();
@@ -1124,8 +1520,38 @@ class MondaySidebarController {
     }
   }
 
+  /** Re-read tracked time for the current task without re-fetching it from Monday. */
+  async refreshTime(): Promise<void> {
+    const task = this.currentTask;
+    if (!task) return;
+
+    let time: TaskTimeSummary;
+    try {
+      time = await fetchTaskTimeSummary(task);
+    } catch (error) {
+      console.error('Failed to load tracked time for task:', error);
+      return;
+    }
+    if (this.currentTask !== task) return;
+    this.treeProvider.setTime(time);
+    this.webviewProvider?.setTime(time);
+
+    const warnPercent = vscode.workspace.getConfiguration('togglTrackAuto').get<number>('estimateWarningPercent') ?? 20;
+    if (time.estimate && !this.overEstimateWarned.has(task.id)) {
+      const trackedHours = time.total / 3600;
+      if (trackedHours > time.estimate * (1 + warnPercent / 100)) {
+        this.overEstimateWarned.add(task.id);
+        vscode.window.showWarningMessage(
+          `Toggl: "${task.name}" is at ${trackedHours.toFixed(1)}h, ${Math.round((trackedHours / time.estimate - 1) * 100)}% over its ${time.estimate}h estimate.`
+        );
+      }
+    }
+  }
+
   async forceRefresh(): Promise<void> {
     // Clear cache to force re-fetch
+    if (this.currentTask) taskTimeCache.delete(this.currentTask.id);
+    this.currentTask = null;
     this.lastBranch = '';
     this.lastTaskId = '';
     await this.update();
@@ -1253,152 +1679,615 @@ async function fetchUserTasks(token: string, boardId: string): Promise<MondayTas
   }
 }
 
-function generatePrepareCommitMsgHook(boardId: string): string {
-  return `#!/bin/sh
-# Auto-generated by Toggl Track Auto - Monday.com integration
-# Dynamically links commits to Monday task based on current branch
+// ========== Git Hooks ==========
 
-COMMIT_MSG_FILE=$1
-COMMIT_SOURCE=$2
+const HOOK_MARKER = 'Toggl Track Auto - Monday.com integration';
+const MANAGED_HOOKS = ['prepare-commit-msg', 'post-commit', 'pre-push'];
+// Hooks that get input on stdin, which both the chained hook and ours need
+const STDIN_HOOKS = ['pre-push'];
+// Suffix of a pre-existing hook that our stub runs first
+const CHAINED_HOOK_SUFFIX = '.toggl-original';
 
-# Skip merge commits and squash commits
-if [ "$COMMIT_SOURCE" = "merge" ] || [ "$COMMIT_SOURCE" = "squash" ]; then
-  exit 0
-fi
+// Compiled hook script shipped with the extension (set in activate)
+let hookScriptSource: string | null = null;
+
+async function getGitCommonDir(root: string): Promise<string | null> {
+  try {
+    const { stdout } = await execAsync('git rev-parse --git-common-dir', { cwd: root });
+    return path.resolve(root, stdout.trim());
+  } catch {
+    return null;
+  }
+}
 
-# Get current branch name
-BRANCH=\$(git symbolic-ref --short HEAD 2>/dev/null)
-if [ -z "\$BRANCH" ]; then
-  exit 0
+/**
+ * Picks the runtime for the hook script: `node` from PATH, else the VS Code
+ * executable recorded in config.json (git GUIs and VS Code launched from the
+ * dock often have no node on PATH). Without either the hook does nothing.
+ */
+const HOOK_RUNTIME_SELECTION = `SCRIPT_DIR="$(git rev-parse --git-common-dir)/${HOOK_DIR_NAME}"
+SCRIPT="$SCRIPT_DIR/${HOOK_SCRIPT_FILE}"
+[ -f "$SCRIPT" ] || exit 0
+NODE=node
+if ! command -v node >/dev/null 2>&1; then
+  NODE="$(sed -n 's/^ *"nodePath": *"\\(.*\\)",\\{0,1\\}$/\\1/p' "$SCRIPT_DIR/${HOOK_CONFIG_FILE}" | sed 's/\\\\\\\\/\\\\/g')"
+  [ -n "$NODE" ] && [ -x "$NODE" ] || exit 0
+  export ELECTRON_RUN_AS_NODE=1
+fi`;
+
+/**
+ * The installed hook is only a stub: the logic lives in a Node script copied
+ * next to it, so it resolves tasks exactly like the extension does. A hook that
+ * was there before is kept as `<hook>.toggl-original` and runs first.
+ */
+function generateHookStub(hook: string): string {
+  const original = `"$HOOK_DIR/${hook}${CHAINED_HOOK_SUFFIX}" "$@"`;
+  const script = `"$NODE" "$SCRIPT" ${hook} "$@"`;
+  if (STDIN_HOOKS.includes(hook)) {
+    return `#!/bin/sh
+# Auto-generated by ${HOOK_MARKER}
+# Runs the hook that was here before (if any), then the extension's ${hook} hook with Node
+HOOK_DIR="$(dirname "$0")"
+INPUT="$(cat)"
+if [ -x "$HOOK_DIR/${hook}${CHAINED_HOOK_SUFFIX}" ]; then
+  printf '%s\\n' "$INPUT" | ${original} || exit $?
+fi
+${HOOK_RUNTIME_SELECTION}
+printf '%s\\n' "$INPUT" | ${script}
+exit 0
+`;
+  }
+  return `#!/bin/sh
+# Auto-generated by ${HOOK_MARKER}
+# Runs the hook that was here before (if any), then the extension's ${hook} hook with Node
+HOOK_DIR="$(dirname "$0")"
+if [ -x "$HOOK_DIR/${hook}${CHAINED_HOOK_SUFFIX}" ]; then
+  ${original} || exit $?
 fi
+${HOOK_RUNTIME_SELECTION}
+exec ${script}
+`;
+}
 
-# Extract Monday task ID from branch name (e.g., feat/12345678-task-name)
-TASK_ID=\$(echo "\$BRANCH" | grep -oE '[0-9]{8,}' | head -1)
+/** Where git runs hooks from: honours core.hooksPath and worktrees (where .git is a file). */
+async function getHooksDir(root: string): Promise<string | null> {
+  try {
+    const { stdout } = await execAsync('git rev-parse --git-path hooks', { cwd: root });
+    return path.resolve(root, stdout.trim());
+  } catch {
+    return null;
+  }
+}
 
-# Fallback: check .vscode/monday-tasks.json mapping
-if [ -z "\$TASK_ID" ] && [ -f ".vscode/monday-tasks.json" ]; then
-  TASK_ID=\$(python3 -c "import json; d=json.load(open('.vscode/monday-tasks.json')); print(d.get('\$BRANCH',{}).get('taskId',''))" 2>/dev/null)
-fi
+interface HookManager {
+  name: string;
+  snippet: string;
+  language: string;
+}
 
-if [ -z "\$TASK_ID" ]; then
-  exit 0
-fi
+/** The line a hook manager should run for `hook` (`args` in the manager's own syntax). */
+function hookCommand(hook: string, args: string): string {
+  return `node "$(git rev-parse --git-common-dir)/${HOOK_DIR_NAME}/${HOOK_SCRIPT_FILE}" ${hook}${args ? ' ' + args : ''}`;
+}
+
+/**
+ * husky and lefthook own the hooks directory and rewrite it on install, so
+ * instead of chaining we hand the user lines for their config.
+ */
+function detectHookManager(root: string, hooksDir: string): HookManager | null {
+  if (hooksDir.split(path.sep).includes('.husky') || fs.existsSync(path.join(root, '.husky'))) {
+    return {
+      name: 'husky',
+      language: 'shellscript',
+      snippet: MANAGED_HOOKS.map(hook => `# .husky/${hook}\n${hookCommand(hook, '"$@"')}\n`).join('\n'),
+    };
+  }
+  const lefthookConfig = ['lefthook.yml', '.lefthook.yml', 'lefthook.yaml', '.lefthook.yaml']
+    .find(name => fs.existsSync(path.join(root, name)));
+  if (lefthookConfig) {
+    return {
+      name: 'lefthook',
+      language: 'yaml',
+      snippet: `# ${lefthookConfig}\n` + MANAGED_HOOKS.map(hook =>
+        `${hook}:\n  commands:\n    toggl-track-auto:\n      run: ${hookCommand(hook, '{0}')}\n`
+        + (STDIN_HOOKS.includes(hook) ? '      use_stdin: true\n' : '')).join(''),
+    };
+  }
+  return null;
+}
 
-MONDAY_URL="https://pivot584586.monday.com/boards/${boardId}/pulses/\$TASK_ID"
+async function showHookSnippet(manager: HookManager): Promise<void> {
+  const doc = await vscode.workspace.openTextDocument({ content: manager.snippet, language: manager.language });
+  await vscode.window.showTextDocument(doc, { preview: true });
+}
 
-# Check if a Monday link is already in the message
-if grep -q "Monday task:" "\$COMMIT_MSG_FILE" 2>/dev/null; then
-  exit 0
-fi
+/** Copy the hook script and the settings it needs into the repo's git common dir. */
+async function writeHookSupportFiles(root: string, boardId: string): Promise<void> {
+  const commonDir = await getGitCommonDir(root);
+  if (!commonDir) throw new Error(`${root} is not a git repository`);
+  if (!hookScriptSource || !fs.existsSync(hookScriptSource)) {
+    throw new Error('The git hook script is missing from the extension build');
+  }
 
-# Append the Monday task link
-echo "" >> "\$COMMIT_MSG_FILE"
-echo "Monday task: \$MONDAY_URL" >> "\$COMMIT_MSG_FILE"
-`;
+  const dir = path.join(commonDir, HOOK_DIR_NAME);
+  fs.mkdirSync(dir, { recursive: true });
+  const scriptPath = path.join(dir, HOOK_SCRIPT_FILE);
+  const script = fs.readFileSync(hookScriptSource, 'utf-8');
+  if (!fs.existsSync(scriptPath) || fs.readFileSync(scriptPath, 'utf-8') !== script) {
+    fs.writeFileSync(scriptPath, script);
+  }
+  const config: HookConfig = { branchPattern: getBranchPattern(), boardId, nodePath: process.execPath };
+  fs.writeFileSync(path.join(dir, HOOK_CONFIG_FILE), JSON.stringify(config, null, 2));
 }
 
-function generatePostCommitHook(boardId: string): string {
-  const token = getMondayToken();
-  // Use heredoc for Python to avoid shell escaping issues with \n in strings
-  return `#!/bin/sh
-# Auto-generated by Toggl Track Auto - Monday.com integration
-# Posts commit updates to Monday.com task
-
-python3 << 'TOGGL_PYEOF'
-import json, subprocess, urllib.request, re, os
-
-branch = subprocess.run(['git', 'symbolic-ref', '--short', 'HEAD'], capture_output=True, text=True).stdout.strip()
-if not branch:
-    exit(0)
-
-m = re.search(r'(\\d{8,})', branch)
-if not m:
-    exit(0)
-task_id = m.group(1)
-
-token = os.environ.get('MONDAY_TOKEN', '${token}')
-if not token:
-    exit(0)
-
-commit_msg = subprocess.run(['git', 'log', '-1', '--pretty=format:%s%n%n%b'], capture_output=True, text=True).stdout.strip()
-commit_hash = subprocess.run(['git', 'log', '-1', '--pretty=format:%h'], capture_output=True, text=True).stdout.strip()
-commit_author = subprocess.run(['git', 'log', '-1', '--pretty=format:%an'], capture_output=True, text=True).stdout.strip()
-
-lines = [l for l in commit_msg.split('\\n') if not l.startswith('Monday task:')]
-clean_msg = '\\n'.join(lines).strip()
-
-body = 'Commit ' + commit_hash + ' by ' + commit_author + ':\\n\\n' + clean_msg
-query = 'mutation { create_update(item_id: ' + task_id + ', body: ' + json.dumps(body) + ') { id } }'
-payload = json.dumps({'query': query}).encode()
-
-req = urllib.request.Request('https://api.monday.com/v2', data=payload, headers={
-    'Authorization': token,
-    'Content-Type': 'application/json',
-})
-try:
-    urllib.request.urlopen(req, timeout=10)
-except:
-    pass
-TOGGL_PYEOF
-`;
+function isManagedHook(hookPath: string): boolean {
+  return fs.existsSync(hookPath) && fs.readFileSync(hookPath, 'utf-8').includes(HOOK_MARKER);
 }
 
-async function installGitHooks(boardId: string): Promise<boolean> {
-  const root = getWorkspaceRoot();
-  if (!root) return false;
+/** Put the stub in place of `hook`, keeping whatever was there as the chained original. */
+function installHookStub(hooksDir: string, hook: string): boolean {
+  const hookPath = path.join(hooksDir, hook);
+  const originalPath = hookPath + CHAINED_HOOK_SUFFIX;
+  const legacyBackupPath = hookPath + '.backup';
+
+  if (fs.existsSync(hookPath) && !isManagedHook(hookPath)) {
+    if (fs.existsSync(originalPath)) {
+      // Something replaced our stub after it chained the original: leave that tool alone
+      console.error(`Toggl: ${hookPath} was replaced by another tool, not touching it`);
+      return false;
+    }
+    fs.renameSync(hookPath, originalPath);
+  } else if (!fs.existsSync(originalPath) && fs.existsSync(legacyBackupPath) && !isManagedHook(legacyBackupPath)) {
+    // Older versions set the user's hook aside without ever running it
+    fs.renameSync(legacyBackupPath, originalPath);
+    fs.chmodSync(originalPath, 0o755);
+  }
+
+  const stub = generateHookStub(hook);
+  if (!fs.existsSync(hookPath) || fs.readFileSync(hookPath, 'utf-8') !== stub) {
+    fs.writeFileSync(hookPath, stub, { mode: 0o755 });
+  }
+  return true;
+}
+
+type HookInstallResult = 'installed' | 'manager' | 'disabled' | 'failed';
 
-  const hooksDir = path.join(root, '.git', 'hooks');
+// Repositories whose hook manager snippet was already offered this session
+const hookSnippetOffered: Set<string> = new Set();
+
+async function installGitHooks(boardId: string, root: string | null = getWorkspaceRoot(), explicit = false): Promise<HookInstallResult> {
+  if (!root) return 'failed';
+  if (!explicit && !vscode.workspace.getConfiguration('togglTrackAuto').get<boolean>('gitHooks', true)) {
+    return 'disabled';
+  }
 
   try {
+    const hooksDir = await getHooksDir(root);
+    if (!hooksDir) return 'failed';
+    await writeHookSupportFiles(root, boardId);
+
+    const manager = detectHookManager(root, hooksDir);
+    if (manager) {
+      if (explicit || !hookSnippetOffered.has(root)) {
+        hookSnippetOffered.add(root);
+        vscode.window.showInformationMessage(
+          `Toggl: ${path.basename(root)} manages its git hooks with ${manager.name}. Add the Monday commit hooks to its config?`,
+          'Show Snippet'
+        ).then(choice => {
+          if (choice === 'Show Snippet') showHookSnippet(manager);
+        });
+      }
+      return 'manager';
+    }
+
     // Ensure hooks directory exists
     if (!fs.existsSync(hooksDir)) {
       fs.mkdirSync(hooksDir, { recursive: true });
     }
+    const installed = MANAGED_HOOKS.map(hook => installHookStub(hooksDir, hook));
+    return installed.every(ok => ok) ? 'installed' : 'failed';
+  } catch (error) {
+    logError('Failed to install git hooks:', error);
+    return 'failed';
+  }
+}
 
-    // Install prepare-commit-msg hook
-    const prepareHookPath = path.join(hooksDir, 'prepare-commit-msg');
-    if (fs.existsSync(prepareHookPath)) {
-      const existing = fs.readFileSync(prepareHookPath, 'utf-8');
-      if (!existing.includes('Toggl Track Auto - Monday.com integration')) {
-        const backupPath = prepareHookPath + '.backup';
-        fs.writeFileSync(backupPath, existing);
+/** Remove the stubs, put the chained hooks back and delete the hook script. */
+async function uninstallGitHooks(root: string): Promise<void> {
+  const hooksDir = await getHooksDir(root);
+  if (hooksDir) {
+    for (const hook of MANAGED_HOOKS) {
+      const hookPath = path.join(hooksDir, hook);
+      const originalPath = hookPath + CHAINED_HOOK_SUFFIX;
+      if (isManagedHook(hookPath)) {
+        fs.unlinkSync(hookPath);
+      }
+      if (fs.existsSync(originalPath) && !fs.existsSync(hookPath)) {
+        fs.renameSync(originalPath, hookPath);
       }
     }
-    fs.writeFileSync(prepareHookPath, generatePrepareCommitMsgHook(boardId), { mode: 0o755 });
+  }
+  const commonDir = await getGitCommonDir(root);
+  if (commonDir) {
+    fs.rmSync(path.join(commonDir, HOOK_DIR_NAME), { recursive: true, force: true });
+  }
+}
 
-    // Install post-commit hook
-    const postHookPath = path.join(hooksDir, 'post-commit');
-    if (fs.existsSync(postHookPath)) {
-      const existing = fs.readFileSync(postHookPath, 'utf-8');
-      if (!existing.includes('Toggl Track Auto - Monday.com integration')) {
-        const backupPath = postHookPath + '.backup';
-        fs.writeFileSync(backupPath, existing);
+/**
+ * Bring hooks installed earlier up to date: new hook script, current
+ * branchPattern and board, and stubs in place of the old sh/python hooks
+ * (whose post-commit hook had the Monday token baked in).
+ */
+async function refreshGitHooks(): Promise<void> {
+  for (const root of await getWorkspaceRepositoryRoots()) {
+    try {
+      const hooksDir = await getHooksDir(root);
+      if (!hooksDir) continue;
+      if (!MANAGED_HOOKS.some(hook => isManagedHook(path.join(hooksDir, hook)))) continue;
+
+      // Also adds hooks introduced since the repo was set up (pre-push)
+      await writeHookSupportFiles(root, getMondayBoardId());
+      if (!detectHookManager(root, hooksDir)) {
+        MANAGED_HOOKS.forEach(hook => installHookStub(hooksDir, hook));
       }
+    } catch (error) {
+      console.error(`Toggl: could not update the git hooks in ${root}:`, error);
     }
-    fs.writeFileSync(postHookPath, generatePostCommitHook(boardId), { mode: 0o755 });
-
-    return true;
-  } catch (error) {
-    console.error('Failed to install git hooks:', error);
-    return false;
   }
 }
 
-// Keep backward compat alias
-async function installPrepareCommitMsgHook(boardId: string): Promise<boolean> {
-  return installGitHooks(boardId);
+function describeHookState(hooksDir: string, hook: string): string {
+  const hookPath = path.join(hooksDir, hook);
+  if (isManagedHook(hookPath)) {
+    return fs.existsSync(hookPath + CHAINED_HOOK_SUFFIX) ? `${hook}: installed, chains to the previous hook` : `${hook}: installed`;
+  }
+  return fs.existsSync(hookPath) ? `${hook}: another hook (not managed)` : `${hook}: not installed`;
 }
 
-async function createBranchFromTask(): Promise<void> {
-  const root = getWorkspaceRoot();
-  if (!root) {
-    vscode.window.showErrorMessage('No workspace folder open.');
-    return;
+/** Which Node the stubs will end up running, as far as this window's PATH can tell. */
+async function describeHookRuntime(commonDir: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('node', ['--version']);
+    return `runs with node ${stdout.trim()}`;
+  } catch {
+    // Fall through to the recorded VS Code runtime
   }
+  let nodePath = '';
+  try {
+    const config: HookConfig = JSON.parse(fs.readFileSync(path.join(commonDir, HOOK_DIR_NAME, HOOK_CONFIG_FILE), 'utf-8'));
+    nodePath = config.nodePath || '';
+  } catch {
+    // Not written yet
+  }
+  return nodePath && fs.existsSync(nodePath)
+    ? `no node on PATH, runs with VS Code (${nodePath})`
+    : 'no node on PATH and no VS Code runtime recorded, hooks do nothing until refreshed';
+}
 
-  const token = getMondayToken();
-  if (!token) {
-    vscode.window.showErrorMessage('Monday.com token not configured. Set MONDAY_TOKEN env var or togglTrackAuto.mondayApiToken setting.');
+function countQueuedCommits(commonDir: string): number {
+  return [MONDAY_COMMIT_QUEUE_FILE, MONDAY_COMMIT_QUEUE_FILE + '.sending']
+    .map(name => path.join(commonDir, name))
+    .filter(file => fs.existsSync(file))
+    .reduce((sum, file) => sum + fs.readFileSync(file, 'utf-8').split('\n').filter(line => line.trim()).length, 0);
+}
+
+/** Per-repository hook status, with install / uninstall / snippet actions. */
+async function showGitHookStatus(): Promise<void> {
+  const items: (vscode.QuickPickItem & { root: string; hooksDir: string; manager: HookManager | null; managed: boolean })[] = [];
+  for (const root of await getWorkspaceRepositoryRoots()) {
+    const hooksDir = await getHooksDir(root);
+    const commonDir = await getGitCommonDir(root);
+    if (!hooksDir || !commonDir) continue;
+
+    const manager = detectHookManager(root, hooksDir);
+    const managed = MANAGED_HOOKS.some(hook => isManagedHook(path.join(hooksDir, hook)))
+      || fs.existsSync(path.join(commonDir, HOOK_DIR_NAME));
+    const queued = countQueuedCommits(commonDir);
+    const details = MANAGED_HOOKS.map(hook => describeHookState(hooksDir, hook));
+    if (managed) details.push(await describeHookRuntime(commonDir));
+    if (queued > 0) details.push(`${queued} queued commit/push event${queued === 1 ? '' : 's'} waiting to be posted`);
+    details.push(path.relative(root, hooksDir) || hooksDir);
+
+    items.push({
+      label: `$(repo) ${path.basename(root)}`,
+      description: manager ? `hooks managed by ${manager.name}` : undefined,
+      detail: details.join(' · '),
+      root,
+      hooksDir,
+      manager,
+      managed,
+    });
+  }
+  if (items.length === 0) {
+    vscode.window.showInformationMessage('Toggl: No git repositories in this workspace.');
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(items, { title: 'Toggl: Git Hook Status', matchOnDetail: true });
+  if (!picked) return;
+
+  const actions: string[] = [];
+  actions.push(picked.manager ? `Show ${picked.manager.name} Snippet` : 'Install Hooks');
+  if (picked.managed) actions.push('Uninstall and Restore');
+  const action = await vscode.window.showQuickPick(actions, { title: path.basename(picked.root) });
+
+  try {
+    if (action === 'Install Hooks') {
+      const result = await installGitHooks(getMondayBoardId(), picked.root, true);
+      if (result === 'installed') {
+        const config = vscode.workspace.getConfiguration('togglTrackAuto');
+        if (!config.get<boolean>('gitHooks', true)) {
+          await config.update('gitHooks', true, vscode.ConfigurationTarget.Workspace);
+        }
+        vscode.window.showInformationMessage(`Toggl: Git hooks installed in ${path.basename(picked.root)}`);
+      } else if (result === 'failed') {
+        showMessageWithLog('error', 'Toggl: Could not install the git hooks, see the output log for details.');
+      }
+    } else if (action === 'Uninstall and Restore') {
+      await uninstallGitHooks(picked.root);
+      // Otherwise the next Monday branch checkout would install them again
+      await vscode.workspace.getConfiguration('togglTrackAuto').update('gitHooks', false, vscode.ConfigurationTarget.Workspace);
+      vscode.window.showInformationMessage(`Toggl: Git hooks removed from ${path.basename(picked.root)}, previous hooks restored`);
+    } else if (action && picked.manager) {
+      await writeHookSupportFiles(picked.root, getMondayBoardId());
+      await showHookSnippet(picked.manager);
+    }
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Toggl: ${error.message || error}`);
+  }
+}
+
+// Keep backward compat alias
+async function installPrepareCommitMsgHook(boardId: string): Promise<HookInstallResult> {
+  return installGitHooks(boardId);
+}
+
+// ========== Monday Commit Queue ==========
+
+// When each task last got a commit update (globalState), for the "time tracked since" line
+const MONDAY_COMMIT_POSTS_KEY = 'togglTrackAuto.mondayCommitPosts';
+
+async function gitOutput(root: string, ...args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd: root });
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
+async function isAncestorCommit(root: string, commit: string, ref: string): Promise<boolean> {
+  return (await gitOutput(root, 'merge-base', '--is-ancestor', commit, ref)) !== null;
+}
+
+// A push that never reaches the remote (rejected, aborted) is dropped after this
+const UNCONFIRMED_PUSH_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a queued push actually landed: pre-push runs before git sends
+ * anything, so only a remote-tracking ref containing its head proves it.
+ * Pushes to a URL (or from older hooks) have no tracking ref of their own,
+ * so any remote-tracking ref will do.
+ */
+async function isPushOnRemote(root: string, push: QueuedPush): Promise<boolean> {
+  if (push.remote && push.remoteBranch) {
+    const trackingRef = `refs/remotes/${push.remote}/${push.remoteBranch}`;
+    if (await gitOutput(root, 'rev-parse', '--verify', '--quiet', trackingRef) !== null) {
+      return isAncestorCommit(root, push.head, trackingRef);
+    }
+  }
+  return !!await gitOutput(root, 'for-each-ref', '--count=1', '--contains', push.head, 'refs/remotes');
+}
+
+// Monday reports rate limits, complexity budgets and its own outages with HTTP 200 too
+const RETRYABLE_MONDAY_ERROR = /complexity|rate.?limit|limit.?exceeded|concurrency|internal.?server/i;
+
+/** Error codes and messages in a Monday GraphQL response body, empty when it succeeded. */
+function mondayResponseErrors(data: any): string[] {
+  const errors: string[] = (data?.errors || []).map((e: any) => `${e.extensions?.code || ''} ${e.message || ''}`.trim());
+  if (data?.error_code || data?.error_message) {
+    errors.push(`${data.error_code || ''} ${data.error_message || ''}`.trim());
+  }
+  return errors;
+}
+
+/**
+ * Turns the events queued by the hooks into one Monday update per pushed branch
+ * (or per branch on demand). Commits that were amended or rebased away are
+ * dropped; events wait in the queue while VS Code is closed or Monday is down.
+ */
+class MondayCommitQueue implements vscode.Disposable {
+  private interval: NodeJS.Timeout;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly globalState: vscode.Memento) {
+    this.interval = setInterval(() => this.flush(), 60000);
+    this.flush();
+  }
+
+  /** Post queued pushes; with `includeUnpushed`, also commits that haven't been pushed yet. Resolves to the number of updates posted. */
+  flush(includeUnpushed = false): Promise<number> {
+    const run = this.flushing.then(() => this.flushNow(includeUnpushed));
+    this.flushing = run.then(() => undefined, error => console.error('Toggl: posting queued commits failed:', error));
+    return run.catch(() => 0);
+  }
+
+  private async flushNow(includeUnpushed: boolean): Promise<number> {
+    const token = getMondayToken();
+    if (!isMondayEnabled() || !token) return 0;
+
+    let posted = 0;
+    for (const root of await getWorkspaceRepositoryRoots()) {
+      const commonDir = await getGitCommonDir(root);
+      if (!commonDir) continue;
+      const queuePath = path.join(commonDir, MONDAY_COMMIT_QUEUE_FILE);
+      // Every window (and VS Code instance) with this repository open flushes the same queue; one at a time
+      posted += await withLockFile(`${queuePath}.lock`, () => this.flushRepository(root, queuePath, includeUnpushed, token));
+    }
+    return posted;
+  }
+
+  private async flushRepository(root: string, queuePath: string, includeUnpushed: boolean, token: string): Promise<number> {
+    const sendingPath = queuePath + '.sending';
+
+    // Take the queue away from the hook atomically; a leftover .sending file is from an interrupted flush
+    if (fs.existsSync(queuePath)) {
+      if (fs.existsSync(sendingPath)) {
+        fs.appendFileSync(sendingPath, fs.readFileSync(queuePath, 'utf-8'));
+        fs.rmSync(queuePath, { force: true });
+      } else {
+        fs.renameSync(queuePath, sendingPath);
+      }
+    }
+    if (!fs.existsSync(sendingPath)) return 0;
+    let posted = 0;
+
+    const events: QueuedEvent[] = [];
+    for (const line of fs.readFileSync(sendingPath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        console.error(`Toggl: dropping unreadable queued commit: ${line}`);
+      }
+    }
+
+    const remaining: QueuedEvent[] = [];
+    const pushes = events.filter((e): e is QueuedPush => e.type === 'push');
+    const postedPushes: QueuedPush[] = [];
+    for (const push of pushes) {
+      if (!await isPushOnRemote(root, push)) {
+        if (Date.now() - push.pushedAt > UNCONFIRMED_PUSH_MAX_AGE_MS) {
+          log(`Push of ${push.head.substring(0, 7)} to ${push.branch} never reached the remote, not posting it`);
+        } else {
+          remaining.push(push);
+        }
+        continue;
+      }
+      if (await this.postUpdate(root, push.taskId, push.branch, push.commits, true, token)) {
+        postedPushes.push(push);
+        posted++;
+      } else {
+        remaining.push(push);
+      }
+    }
+
+    // Commits still waiting for a push, without duplicates and rewritten ones
+    const unpushed = new Map<string, QueuedCommit[]>();
+    const seen = new Set<string>();
+    for (const commit of events.filter((e): e is QueuedCommit => e.type !== 'push')) {
+      if (seen.has(commit.hash)) continue;
+      seen.add(commit.hash);
+      if (!await isAncestorCommit(root, commit.hash, commit.branch ? `refs/heads/${commit.branch}` : 'HEAD')) {
+        log(`${commit.hash.substring(0, 7)} was amended or rebased, not posting it`);
+        continue;
+      }
+      const coveredBy = async (list: QueuedPush[]) => {
+        for (const push of list) {
+          if (push.taskId === commit.taskId && await isAncestorCommit(root, commit.hash, push.head)) return true;
+        }
+        return false;
+      };
+      if (await coveredBy(postedPushes)) continue;
+      if (!includeUnpushed || await coveredBy(remaining.filter((e): e is QueuedPush => e.type === 'push'))) {
+        remaining.push(commit);
+        continue;
+      }
+      const key = `${commit.taskId}\t${commit.branch || ''}`;
+      unpushed.set(key, [...(unpushed.get(key) || []), commit]);
+    }
+
+    for (const commits of unpushed.values()) {
+      commits.sort((a, b) => a.committedAt - b.committedAt);
+      const { taskId, branch } = commits[0];
+      if (await this.postUpdate(root, taskId, branch || '', commits.map(c => c.hash), false, token)) {
+        posted++;
+      } else {
+        remaining.push(...commits);
+      }
+    }
+
+    fs.rmSync(sendingPath, { force: true });
+    if (remaining.length > 0) {
+      fs.appendFileSync(queuePath, remaining.map(e => JSON.stringify(e)).join('\n') + '\n');
+    }
+    return posted;
+  }
+
+  /** One update listing the commits with their stats and the time tracked since the last one. False when it should be retried later. */
+  private async postUpdate(root: string, taskId: string, branch: string, hashes: string[], pushed: boolean, token: string): Promise<boolean> {
+    const lines: string[] = [];
+    for (const hash of hashes) {
+      const subject = await gitOutput(root, 'show', '-s', '--format=%h %s', hash);
+      if (subject === null) continue; // Garbage-collected since
+      const stat = await gitOutput(root, 'show', '--shortstat', '--format=', hash);
+      lines.push(`• ${subject}${stat ? ` (${stat})` : ''}`);
+    }
+    if (lines.length === 0) return true;
+
+    // The first update for a task counts from the start of its first commit's day
+    const posts = this.globalState.get<{ [taskId: string]: number }>(MONDAY_COMMIT_POSTS_KEY) || {};
+    const firstCommitAt = Number(await gitOutput(root, 'show', '-s', '--format=%ct', hashes[0])) * 1000;
+    const since = posts[taskId] ? new Date(posts[taskId]) : startOfDay(new Date(firstCommitAt || Date.now()));
+    const tracked = await this.trackedSince(taskId, since);
+
+    const count = `${lines.length} commit${lines.length === 1 ? '' : 's'}`;
+    const header = pushed ? `Pushed ${count} to ${branch}` : `${count} on ${branch || 'the current branch'}`;
+    const time = tracked === null ? '' : `\nTime tracked since ${since.toLocaleString()}: ${formatDuration(tracked)}`;
+    const body = `${header}:\n\n${lines.join('\n')}\n${time}`;
+
+    try {
+      const response = await axios.post(MONDAY_API_URL, {
+        query: `mutation { create_update(item_id: ${Number(taskId)}, body: ${JSON.stringify(body)}) { id } }`,
+      }, {
+        headers: { 'Authorization': token, 'Content-Type': 'application/json' },
+        timeout: 10000,
+      });
+      const errors = mondayResponseErrors(response.data);
+      if (errors.some(error => RETRYABLE_MONDAY_ERROR.test(error))) {
+        log(`Monday is throttling the commit update for task ${taskId}, will retry: ${errors.join('; ')}`);
+        return false;
+      }
+      if (errors.length > 0) {
+        // Deleted item, missing permission... retrying won't help
+        console.error(`Toggl: Monday rejected the commit update for task ${taskId}:`, errors.join('; '));
+        return true;
+      }
+      await this.globalState.update(MONDAY_COMMIT_POSTS_KEY, { ...posts, [taskId]: Date.now() });
+      return true;
+    } catch (error) {
+      console.error(`Toggl: could not post the commit update for task ${taskId}, will retry:`, error);
+      return false;
+    }
+  }
+
+  private async trackedSince(taskId: string, since: Date): Promise<number | null> {
+    try {
+      const entries = await loadReportEntries(since, new Date());
+      return entries
+        .filter(e => e.taskId === taskId && e.end > since)
+        .reduce((sum, e) => sum + (e.end.getTime() - Math.max(e.start.getTime(), since.getTime())) / 1000, 0);
+    } catch (error) {
+      console.error('Toggl: could not load tracked time for the commit update:', error);
+      return null;
+    }
+  }
+
+  dispose() {
+    clearInterval(this.interval);
+  }
+}
+
+async function createBranchFromTask(): Promise<void> {
+  const root = getWorkspaceRoot();
+  if (!root) {
+    vscode.window.showErrorMessage('No workspace folder open.');
+    return;
+  }
+
+  const token = getMondayToken();
+  if (!token) {
+    vscode.window.showErrorMessage('Monday.com token not configured. Run "Toggl: Setup Monday.com Integration".');
     return;
   }
 
@@ -1491,11 +2380,17 @@ async function createBranchFromTask(): Promise<void> {
   writeBranchTaskMappings(mappings);
 
   // Install prepare-commit-msg hook
-  const hookInstalled = await installPrepareCommitMsgHook(task.boardId);
+  const hookResult = await installPrepareCommitMsgHook(task.boardId);
+  const hookMessage = {
+    installed: 'Commit hook installed.',
+    manager: 'Add the commit hooks to your hook manager (see "Toggl: Show Git Hook Status").',
+    disabled: '',
+    failed: '⚠️ Could not install commit hook.',
+  }[hookResult];
 
   const actions = ['Open in Monday.com'];
   const result = await vscode.window.showInformationMessage(
-    `✅ Branch "${branchName}" created and checked out.\n${hookInstalled ? 'Commit hook installed.' : '⚠️ Could not install commit hook.'}`,
+    `✅ Branch "${branchName}" created and checked out.\n${hookMessage}`,
     ...actions
   );
 
@@ -1561,22 +2456,28 @@ async function checkBranchForMondayLink(): Promise<void> {
 
 // ========== End Monday.com Task Integration ==========
 
-async function runSetupWizard(): Promise<boolean> {
+/**
+ * First-run setup. Run explicitly (the Setup command), it asks for a new
+ * token even when one is stored, so tokens can be rotated.
+ */
+async function runSetupWizard(explicit = false): Promise<boolean> {
   const config = vscode.workspace.getConfiguration('togglTrackAuto');
   
   // Check if already configured
-  if (config.get<string>('apiToken') && config.get<number>('workspaceId')) {
+  if (!explicit && getTogglToken() && config.get<number>('workspaceId')) {
     return true;
   }
 
-  const start = await vscode.window.showInformationMessage(
-    '🚀 Welcome to Toggl Track Auto! Let\'s set it up.',
-    'Start Setup',
-    'Later'
-  );
+  if (!explicit) {
+    const start = await vscode.window.showInformationMessage(
+      '🚀 Welcome to Toggl Track Auto! Let\'s set it up.',
+      'Start Setup',
+      'Later'
+    );
 
-  if (start !== 'Start Setup') {
-    return false;
+    if (start !== 'Start Setup') {
+      return false;
+    }
   }
 
   // Step 1: API Token
@@ -1612,7 +2513,7 @@ async function runSetupWizard(): Promise<boolean> {
     vscode.window.showInformationMessage(`✅ Connected as ${user.fullname || user.email}`);
     
     // Save token
-    await config.update('apiToken', apiToken, vscode.ConfigurationTarget.Global);
+    await storeToken(TOGGL_TOKEN_SECRET, apiToken);
     
     // Get workspace ID from user's default
     const workspaceId = user.default_workspace_id;
@@ -1630,6 +2531,54 @@ async function runSetupWizard(): Promise<boolean> {
   return true;
 }
 
+/** Replace or delete the stored Toggl / Monday.com tokens. */
+async function manageApiTokens(): Promise<void> {
+  const items: (vscode.QuickPickItem & { action: () => Promise<void> })[] = [
+    {
+      label: '$(key) Change Toggl token',
+      description: getTogglToken() ? 'stored' : 'not set',
+      action: async () => {
+        if (await runSetupWizard(true)) tracker.start();
+      },
+    },
+    {
+      label: '$(key) Change Monday.com token',
+      description: getMondayToken() ? 'stored' : 'not set',
+      action: async () => {
+        await runMondaySetupWizard();
+      },
+    },
+  ];
+  if (getTogglToken()) {
+    items.push({
+      label: '$(trash) Remove Toggl token',
+      description: 'stops tracking',
+      action: async () => {
+        await tracker.stop();
+        await removeToken(TOGGL_TOKEN_SECRET);
+        vscode.window.showInformationMessage('Toggl: Removed the Toggl token. Run "Toggl: Setup" to add one again.');
+      },
+    });
+  }
+  if (getMondayToken()) {
+    items.push({
+      label: '$(trash) Remove Monday.com token',
+      action: async () => {
+        await removeToken(MONDAY_TOKEN_SECRET);
+        vscode.window.showInformationMessage('Toggl: Removed the Monday.com token.');
+      },
+    });
+  }
+
+  const picked = await vscode.window.showQuickPick(items, { title: 'Toggl: API Tokens' });
+  if (!picked) return;
+  if (picked.label.startsWith('$(trash)')) {
+    const confirm = await vscode.window.showWarningMessage(`${picked.label.replace('$(trash) ', '')}?`, { modal: true }, 'Remove');
+    if (confirm !== 'Remove') return;
+  }
+  await picked.action();
+}
+
 async function runMondaySetupWizard(): Promise<boolean> {
   const config = vscode.workspace.getConfiguration('togglTrackAuto');
 
@@ -1685,7 +2634,7 @@ async function runMondaySetupWizard(): Promise<boolean> {
   }
 
   // Save settings
-  await config.update('mondayApiToken', mondayToken, vscode.ConfigurationTarget.Global);
+  await storeToken(MONDAY_TOKEN_SECRET, mondayToken);
   await config.update('mondayBoardId', boardId.trim(), vscode.ConfigurationTarget.Global);
   await config.update('mondayEnabled', true, vscode.ConfigurationTarget.Global);
 
@@ -1706,258 +2655,3299 @@ interface MondayItem {
   name: string;
 }
 
-class TogglTracker {
-  private statusBarItem: vscode.StatusBarItem;
-  private newBranchStatusBarItem: vscode.StatusBarItem;
-  private breakStatusBarItem: vscode.StatusBarItem;
-  private currentBranch: string = '';
-  private currentEntryId: number | null = null;
-  private lastActivity: number = Date.now();
-  private checkInterval: NodeJS.Timeout | null = null;
-  private idleCheckInterval: NodeJS.Timeout | null = null;
-  private isTracking: boolean = false;
-  private taskCache: Map<string, string> = new Map();
-  // Track last stopped entry for resume feature
-  private lastStoppedDescription: string = '';
-  private lastStoppedTime: number = 0;
-  private lastStoppedEntryId: number | null = null;
-  private currentDescription: string = '';
-  // Break tracking
-  private isOnBreak: boolean = false;
-  private preBreakEntryId: number | null = null;
-  private preBreakDescription: string = '';
-  private preBreakBranch: string = '';
-  // Org filtering
-  private isOrgAllowed: boolean = false;
-  private lastCheckedOrgFolder: string = '';
-  // Monday sidebar controller (set externally)
-  public mondaySidebarController: MondaySidebarController | null = null;
+interface IdlePeriod {
+  entryId: number;
+  description: string;
+  branch: string;
+  // Last activity before going idle
+  idleStart: number;
+  // First activity after coming back
+  returnedAt?: number;
+}
 
-  constructor() {
-    this.statusBarItem = vscode.window.createStatusBarItem(
-      vscode.StatusBarAlignment.Left,
-      100
-    );
-    this.statusBarItem.command = 'toggl-track-auto.status';
-    
-    // Show version in tooltip
-    const extension = vscode.extensions.getExtension('pivot.toggl-track-auto');
-    const version = extension?.packageJSON?.version || 'unknown';
-    this.statusBarItem.tooltip = `Toggl Track Auto v${version}\nClick for status`;
-    
-    this.statusBarItem.show();
-    this.updateStatusBar('$(clock) Toggl: Initializing...');
-    
-    // New branch button (between indicator and break) - only when Monday enabled
-    this.newBranchStatusBarItem = vscode.window.createStatusBarItem(
-      vscode.StatusBarAlignment.Left,
-      99.5
-    );
-    this.newBranchStatusBarItem.command = 'toggl-track-auto.createBranchFromTask';
-    this.newBranchStatusBarItem.text = '$(add)';
-    this.newBranchStatusBarItem.tooltip = 'Create a new branch from a Monday.com task';
-    if (isMondayEnabled()) {
-      this.newBranchStatusBarItem.show();
-    }
-    
-    // Break button
-    this.breakStatusBarItem = vscode.window.createStatusBarItem(
-      vscode.StatusBarAlignment.Left,
-      99
-    );
-    this.breakStatusBarItem.command = 'toggl-track-auto.toggleBreak';
-    this.updateBreakButton();
-    this.breakStatusBarItem.show();
-  }
-  
-  private updateBreakButton() {
-    if (this.isOnBreak) {
-      this.breakStatusBarItem.text = '$(debug-stop) End Break';
-      this.breakStatusBarItem.tooltip = 'Click to end break and resume work';
-      this.breakStatusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
-    } else {
-      this.breakStatusBarItem.text = '$(coffee) Break';
-      this.breakStatusBarItem.tooltip = 'Click to start a break';
-      this.breakStatusBarItem.backgroundColor = undefined;
-    }
-  }
+// How long the idle prompt waits for an answer before keeping the idle time
+const IDLE_PROMPT_TIMEOUT_MS = 2 * 60 * 1000;
 
-  private getConfig() {
-    return vscode.workspace.getConfiguration('togglTrackAuto');
-  }
+// Entry this extension believes is running, for crash recovery (globalState)
+const RUNNING_ENTRY_KEY = 'togglTrackAuto.runningEntry';
 
-  private updateStatusBar(text: string) {
-    this.statusBarItem.text = text;
-  }
+interface PersistedRunningEntry {
+  entryId: number;
+  // As started, i.e. after corrections and maintenance formats
+  description: string;
+  lastActivity: number;
+  // Where it was tracked (missing in records from older versions)
+  root?: string;
+  branch?: string;
+}
 
-  /**
-   * Extract the GitHub org/user from the git remote URL of the current workspace.
-   */
-  private async getGitRemoteOrg(): Promise<string | null> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return null;
-    }
+// Corrections made with "Edit Current Entry", keyed by repo root + branch (globalState)
+const BRANCH_CORRECTIONS_KEY = 'togglTrackAuto.branchCorrections';
 
-    try {
-      const { stdout } = await execAsync('git remote get-url origin', {
-        cwd: workspaceFolders[0].uri.fsPath,
-      });
-      const url = stdout.trim();
+// IDs of entries this extension created, with when (only these are ever merged or dropped)
+const CREATED_ENTRIES_KEY = 'togglTrackAuto.createdEntries';
+const CREATED_ENTRIES_MAX_AGE_MS = 3 * 24 * 60 * 60 * 1000;
 
-      // SSH format: git@github.com:org/repo.git
-      const sshMatch = url.match(/git@github\.com:([^/]+)\//);
-      if (sshMatch) return sshMatch[1].toLowerCase();
+// Ticket each entry was started for, so reports don't depend on the description format (globalState)
+const ENTRY_TASKS_KEY = 'togglTrackAuto.entryTasks';
+const ENTRY_TASKS_MAX = 5000;
 
-      // HTTPS format: https://github.com/org/repo.git
-      const httpsMatch = url.match(/github\.com\/([^/]+)\//);
-      if (httpsMatch) return httpsMatch[1].toLowerCase();
+interface EntryCorrection {
+  description?: string;
+  projectId?: number | null;
+  tags?: string[];
+  billable?: boolean;
+}
 
-      return null;
-    } catch {
-      return null;
-    }
-  }
+const BREAK_TYPES = ['☕ Coffee Break', '🍽️ Lunch Break', '🚶 Short Break'];
 
-  /**
-   * Check if the current repo belongs to one of the allowed GitHub organizations.
-   */
-  async checkOrgAllowed(): Promise<boolean> {
-    const config = this.getConfig();
-    const allowedOrgs = config.get<string[]>('allowedOrgs') || [];
+interface MondayTaskSummary {
+  name: string;
+  group: string;
+  status: string;
+  priority: string;
+}
 
-    // Empty list = no filtering, allow all
-    if (allowedOrgs.length === 0) {
-      this.isOrgAllowed = true;
-      return true;
-    }
+// ========== Entry Description Templates ==========
+
+interface EntryTemplateContext {
+  ticket_id: string;
+  task_name: string;
+  branch: string;
+  repo: string;
+  org: string;
+  group: string;
+  status: string;
+  priority: string;
+  branch_type: string;
+}
 
-    // Cache per workspace folder path
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    const currentFolder = workspaceFolders?.[0]?.uri.fsPath || '';
-    
-    if (currentFolder && currentFolder === this.lastCheckedOrgFolder) {
-      return this.isOrgAllowed;
-    }
+const DEFAULT_ENTRY_FORMAT = '[{ticket_id}] {task_name|branch}';
 
-    this.lastCheckedOrgFolder = currentFolder;
-    const org = await this.getGitRemoteOrg();
+function getBranchType(branch: string): string {
+  // feat/123-foo -> feat, fix/123 -> fix, 123-hotfix -> ''
+  const slash = branch.indexOf('/');
+  return slash > 0 ? branch.substring(0, slash) : '';
+}
 
-    if (!org) {
-      this.isOrgAllowed = false;
-      return false;
+function parseGitRemote(url: string): { org: string; repo: string } | null {
+  // git@github.com:org/repo.git or https://github.com/org/repo.git
+  const match = url.trim().match(/[:/]([^/:]+)\/([^/]+?)(?:\.git)?\/?$/);
+  if (!match) return null;
+  return { org: match[1].toLowerCase(), repo: match[2] };
+}
+
+/**
+ * Render a `togglTrackAuto.entryFormat` template.
+ *
+ * Placeholders are `{name}`, with `|` separated fallbacks (`{task_name|branch}`)
+ * and an optional max length (`{task_name:40}`). Brackets left empty by a
+ * missing value are dropped, so `[{ticket_id}] {branch}` renders as `main`
+ * rather than `[] main`.
+ */
+function renderEntryDescription(format: string, ctx: EntryTemplateContext, maxLength: number = 0): string {
+  const rendered = format.replace(/\{([a-z_|]+)(?::(\d+))?\}/g, (_match, names: string, limit?: string) => {
+    let value = '';
+    for (const name of names.split('|')) {
+      value = ((ctx as any)[name] || '').trim();
+      if (value) break;
     }
+    if (limit && value.length > Number(limit)) {
+      value = value.substring(0, Number(limit) - 1).trimEnd() + '…';
+    }
+    return value;
+  });
 
-    this.isOrgAllowed = allowedOrgs.some(
-      (allowed) => allowed.toLowerCase() === org
-    );
+  let description = rendered
+    .replace(/\[\s*\]|\(\s*\)|\{\s*\}/g, '')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/^[\s\-–—:|·]+|[\s\-–—:|·]+$/g, '')
+    .trim();
 
-    return this.isOrgAllowed;
+  if (!description) description = ctx.branch;
+  if (maxLength > 0 && description.length > maxLength) {
+    description = description.substring(0, maxLength - 1).trimEnd() + '…';
   }
+  return description;
+}
 
-  async start() {
-    const config = this.getConfig();
-    if (!config.get<boolean>('enabled')) {
-      this.updateStatusBar('$(clock) Toggl: Disabled');
-      return;
-    }
+/** Entry description for a Monday task picked from a list rather than a branch. */
+function describeMondayTask(task: { id: string; name: string; group?: string; status?: string; priority?: string }): string {
+  const config = vscode.workspace.getConfiguration('togglTrackAuto');
+  const format = config.get<string>('entryFormat') || DEFAULT_ENTRY_FORMAT;
+  return renderEntryDescription(format, {
+    ticket_id: task.id, task_name: task.name, branch: '', repo: '', org: '',
+    group: task.group || '', status: task.status || '', priority: task.priority || '',
+    branch_type: '',
+  }, config.get<number>('entryMaxLength') || 0);
+}
 
-    const apiToken = config.get<string>('apiToken');
-    if (!apiToken) {
-      this.updateStatusBar('$(warning) Toggl: No API token');
-      vscode.window.showWarningMessage(
-        'Toggl Track Auto: Please set your API token in settings'
-      );
-      return;
-    }
+// ========== Project / Tag Rules ==========
+
+type RuleCondition = string | string[];
+
+interface EntryRule {
+  name?: string;
+  // Every condition given must match; values are case-insensitive globs
+  match?: {
+    org?: RuleCondition;
+    repo?: RuleCondition;
+    branch?: RuleCondition;
+    group?: RuleCondition;
+    status?: RuleCondition;
+    priority?: RuleCondition;
+    ticketId?: RuleCondition;
+  };
+  projectId?: number;
+  tags?: string[];
+  billable?: boolean;
+}
 
-    // Check if the current repo belongs to an allowed org
-    const orgAllowed = await this.checkOrgAllowed();
+interface EntryRuleMatch {
+  rule: EntryRule;
+  index: number;
+  file: string;
+}
+
+const ENTRY_RULES_TEMPLATE = {
+  rules: [
+    {
+      name: 'Internal repos are not billable',
+      match: { org: 'pivotteam', repo: 'internal-*' },
+      projectId: 0,
+      tags: ['internal'],
+      billable: false,
+    },
+  ],
+};
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function conditionMatches(condition: RuleCondition | undefined, value: string): boolean {
+  if (condition === undefined) return true;
+  const patterns = Array.isArray(condition) ? condition : [condition];
+  return patterns.some(p => globToRegExp(String(p)).test(value));
+}
+
+function entryRuleMatches(rule: EntryRule, ctx: EntryTemplateContext): boolean {
+  const m = rule.match || {};
+  return conditionMatches(m.org, ctx.org)
+    && conditionMatches(m.repo, ctx.repo)
+    && conditionMatches(m.branch, ctx.branch)
+    && conditionMatches(m.group, ctx.group)
+    && conditionMatches(m.status, ctx.status)
+    && conditionMatches(m.priority, ctx.priority)
+    && conditionMatches(m.ticketId, ctx.ticket_id);
+}
+
+function getWorkspaceRulesFilePath(): string | null {
+  const root = getWorkspaceRoot();
+  if (!root) return null;
+  return path.join(root, '.vscode', 'toggl-rules.json');
+}
+
+function readEntryRules(filePath: string): EntryRule[] {
+  try {
+    if (fs.existsSync(filePath)) {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return Array.isArray(data) ? data : (data.rules || []);
+    }
+  } catch (error) {
+    console.error(`Failed to read Toggl rules from ${filePath}:`, error);
+  }
+  return [];
+}
+
+/**
+ * Find the first matching rule. Workspace rules (`.vscode/toggl-rules.json`)
+ * are checked before the user-level rules file.
+ */
+function findEntryRule(ctx: EntryTemplateContext, userRulesPath: string): EntryRuleMatch | null {
+  const files = [getWorkspaceRulesFilePath(), userRulesPath].filter((f): f is string => !!f);
+  for (const file of files) {
+    const rules = readEntryRules(file);
+    const index = rules.findIndex(rule => entryRuleMatches(rule, ctx));
+    if (index >= 0) {
+      return { rule: rules[index], index, file };
+    }
+  }
+  return null;
+}
+
+function describeEntryRule(match: EntryRuleMatch): string {
+  const label = match.rule.name ? `"${match.rule.name}"` : `#${match.index + 1}`;
+  const conditions = Object.entries(match.rule.match || {})
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : value}`)
+    .join(', ');
+  return `rule ${label} in ${match.file}${conditions ? ` (${conditions})` : ' (matches everything)'}`;
+}
+
+// ========== Offline Operation Journal ==========
+
+const TOGGL_API_URL = 'https://api.track.toggl.com/api/v9';
+
+type JournalOpKind = 'start' | 'stop' | 'continue' | 'update' | 'delete';
+
+interface JournalOp {
+  id: string;
+  kind: JournalOpKind;
+  // Server entry ID, or a negative local ID for entries started while offline
+  entryId: number;
+  // When the intent actually happened (replayed as-is, not the replay time)
+  at: string;
+  payload?: any;
+}
+
+interface JournalState {
+  ops: JournalOp[];
+  nextLocalId: number;
+  // Local ID → server ID of replayed starts, so every window can swap its placeholders
+  resolved?: { [localId: string]: number };
+}
+
+// Replayed starts remembered in the journal file for other windows
+const JOURNAL_RESOLVED_MAX = 100;
+// A lock file older than this was left behind by a window that died holding it
+const LOCK_FILE_STALE_MS = 30000;
+
+/**
+ * Run `fn` while holding `lockPath`. The file is created exclusively, so only
+ * one window at a time gets past this; the others wait for it to be removed.
+ */
+async function withLockFile<T>(lockPath: string, fn: () => Promise<T> | T): Promise<T> {
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lockPath, 'wx'));
+      break;
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') throw error;
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_FILE_STALE_MS) fs.unlinkSync(lockPath);
+      } catch {
+        // Released in the meantime
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  }
+  // Keep the lock fresh while `fn` waits on the network, so nobody mistakes it for stale
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    fs.utimes(lockPath, now, now, () => {});
+  }, LOCK_FILE_STALE_MS / 3);
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    try {
+      fs.unlinkSync(lockPath);
+    } catch {
+      // Already taken over as stale
+    }
+  }
+}
+
+/**
+ * Network failures, rate limits and server errors are worth retrying later;
+ * any other 4xx means the request itself is wrong and replaying won't help.
+ */
+function isRetryableTogglError(error: any): boolean {
+  const status = error?.response?.status;
+  if (!status) return true;
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Persistent journal of start/stop/continue intents. Operations are sent
+ * straight to Toggl when the journal is empty; if the API is unreachable they
+ * are queued in globalStorage and replayed in order once it's back.
+ *
+ * All windows share the file: it is re-read under a lock file before every
+ * change and every replayed operation, and only the timer owner replays on
+ * its own (see TimerOwnershipCoordinator).
+ */
+class TogglOperationJournal {
+  private ops: JournalOp[] = [];
+  private nextLocalId: number = -1;
+  private resolved: { [localId: string]: number } = {};
+  // Resolutions this window has already announced
+  private seenResolved = new Set<string>();
+  private filePath: string;
+  private lockPath: string;
+  private isOwner: () => boolean;
+  private flushing: boolean = false;
+  private flushInterval: NodeJS.Timeout | null = null;
+
+  private _onDidChangePending = new vscode.EventEmitter<number>();
+  readonly onDidChangePending = this._onDidChangePending.event;
+  private _onDidResolveEntry = new vscode.EventEmitter<{ localId: number; entryId: number }>();
+  readonly onDidResolveEntry = this._onDidResolveEntry.event;
+  // Fires with the server ID of every entry created through the journal
+  private _onDidCreateEntry = new vscode.EventEmitter<number>();
+  readonly onDidCreateEntry = this._onDidCreateEntry.event;
+
+  constructor(storageDir: string, isOwner: () => boolean) {
+    this.filePath = path.join(storageDir, 'toggl-journal.json');
+    this.lockPath = path.join(storageDir, 'toggl-journal.lock');
+    this.isOwner = isOwner;
+    this.load();
+    // Retry pending operations every minute
+    this.flushInterval = setInterval(() => this.flush(), 60000);
+  }
+
+  /** Operations still queued by any window (re-reads the file). */
+  get pendingCount(): number {
+    this.load();
+    return this.ops.length;
+  }
+
+  private getAuth() {
+    const config = vscode.workspace.getConfiguration('togglTrackAuto');
+    return {
+      apiToken: getTogglToken() || '',
+      workspaceId: config.get<number>('workspaceId') || 0,
+    };
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const state: JournalState = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        this.ops = state.ops || [];
+        this.nextLocalId = state.nextLocalId || -1;
+        this.resolved = state.resolved || {};
+      }
+    } catch (error) {
+      console.error('Failed to read Toggl journal:', error);
+    }
+    // Starts another window replayed for entries this window may be holding
+    for (const [localId, entryId] of Object.entries(this.resolved)) {
+      if (this.seenResolved.has(localId)) continue;
+      this.seenResolved.add(localId);
+      this._onDidResolveEntry.fire({ localId: Number(localId), entryId });
+    }
+  }
+
+  private save(): void {
+    try {
+      const dir = path.dirname(this.filePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      const state: JournalState = { ops: this.ops, nextLocalId: this.nextLocalId, resolved: this.resolved };
+      // Write-then-rename so other windows never read a partial file
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      console.error('Failed to write Toggl journal:', error);
+    }
+    this._onDidChangePending.fire(this.ops.length);
+  }
+
+  /**
+   * Append an operation to the shared file. A null `entryId` allocates a new
+   * local ID (for starts), which is returned.
+   */
+  private enqueue(kind: JournalOpKind, entryId: number | null, at: Date, payload?: any): Promise<number> {
+    return withLockFile(this.lockPath, () => {
+      this.load();
+      const id = entryId ?? this.nextLocalId--;
+      this.ops.push({
+        id: `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        kind,
+        entryId: id,
+        at: at.toISOString(),
+        payload,
+      });
+      log(`queued ${kind} for entry ${id} (${this.ops.length} pending)`);
+      this.save();
+      return id;
+    });
+  }
+
+  /**
+   * Create an entry (running when `duration` is -1). Returns the server ID, or
+   * a negative local ID when the request had to be queued. Non-retryable API
+   * errors are re-thrown.
+   */
+  async start(payload: any): Promise<number> {
+    const at = new Date(payload.start || Date.now());
+    if (this.pendingCount === 0) {
+      const { apiToken, workspaceId } = this.getAuth();
+      try {
+        const response = await axios.post(
+          `${TOGGL_API_URL}/workspaces/${workspaceId}/time_entries`,
+          payload,
+          { auth: { username: apiToken, password: 'api_token' } }
+        );
+        this._onDidCreateEntry.fire(response.data.id);
+        return response.data.id;
+      } catch (error) {
+        if (!isRetryableTogglError(error)) throw error;
+        console.error('Toggl unreachable, queueing start:', error);
+      }
+    }
+
+    const localId = await this.enqueue('start', null, at, payload);
+    this.flush();
+    return localId;
+  }
+
+  async stop(entryId: number, at: Date = new Date()): Promise<void> {
+    if (this.pendingCount === 0 && entryId > 0) {
+      const { apiToken, workspaceId } = this.getAuth();
+      try {
+        if (Date.now() - at.getTime() > 5000) {
+          // Stopping in the past (e.g. at a checkout that has since stuck) rewrites `stop`
+          await axios.put(
+            `${TOGGL_API_URL}/workspaces/${workspaceId}/time_entries/${entryId}`,
+            { stop: at.toISOString() },
+            { auth: { username: apiToken, password: 'api_token' } }
+          );
+          return;
+        }
+        await axios.patch(
+          `${TOGGL_API_URL}/workspaces/${workspaceId}/time_entries/${entryId}/stop`,
+          {},
+          { auth: { username: apiToken, password: 'api_token' } }
+        );
+        return;
+      } catch (error) {
+        if (!isRetryableTogglError(error)) {
+          // Already stopped or deleted on the server - nothing left to do
+          console.error('Failed to stop Toggl entry:', error);
+          return;
+        }
+        console.error('Toggl unreachable, queueing stop:', error);
+      }
+    }
+
+    await this.enqueue('stop', entryId, at);
+    this.flush();
+  }
+
+  /**
+   * Make a stopped entry run again. Returns the entry ID to track; when queued
+   * this is the same ID, optimistically assuming the replay will succeed.
+   */
+  async continueEntry(entryId: number): Promise<number> {
+    if (this.pendingCount === 0) {
+      const { apiToken, workspaceId } = this.getAuth();
+      try {
+        const response = await axios.put(
+          `${TOGGL_API_URL}/workspaces/${workspaceId}/time_entries/${entryId}`,
+          { duration: -1, stop: null },
+          { auth: { username: apiToken, password: 'api_token' } }
+        );
+        return response.data.id;
+      } catch (error) {
+        if (!isRetryableTogglError(error)) throw error;
+        console.error('Toggl unreachable, queueing continue:', error);
+      }
+    }
+
+    await this.enqueue('continue', entryId, new Date());
+    this.flush();
+    return entryId;
+  }
+
+  /**
+   * Change fields of an existing entry, e.g. rewrite its `stop`.
+   */
+  async update(entryId: number, fields: any): Promise<void> {
+    if (this.pendingCount === 0 && entryId > 0) {
+      const { apiToken, workspaceId } = this.getAuth();
+      try {
+        await axios.put(
+          `${TOGGL_API_URL}/workspaces/${workspaceId}/time_entries/${entryId}`,
+          fields,
+          { auth: { username: apiToken, password: 'api_token' } }
+        );
+        return;
+      } catch (error) {
+        if (!isRetryableTogglError(error)) throw error;
+        console.error('Toggl unreachable, queueing update:', error);
+      }
+    }
+
+    await this.enqueue('update', entryId, new Date(), fields);
+    this.flush();
+  }
+
+  async remove(entryId: number): Promise<void> {
+    if (this.pendingCount === 0 && entryId > 0) {
+      const { apiToken, workspaceId } = this.getAuth();
+      try {
+        await axios.delete(
+          `${TOGGL_API_URL}/workspaces/${workspaceId}/time_entries/${entryId}`,
+          { auth: { username: apiToken, password: 'api_token' } }
+        );
+        return;
+      } catch (error) {
+        if (!isRetryableTogglError(error)) throw error;
+        console.error('Toggl unreachable, queueing delete:', error);
+      }
+    }
+
+    await this.enqueue('delete', entryId, new Date());
+    this.flush();
+  }
+
+  /**
+   * Replay queued operations in order. Stops at the first retryable failure
+   * so later operations never overtake earlier ones. Only the timer owner
+   * replays unless `force` (the user asked to sync now).
+   */
+  async flush(force: boolean = false): Promise<void> {
+    if (this.flushing || (!force && !this.isOwner()) || this.pendingCount === 0) return;
+    const { apiToken, workspaceId } = this.getAuth();
+    if (!apiToken || !workspaceId) return;
+
+    this.flushing = true;
+    try {
+      let more = true;
+      while (more) {
+        // One operation per lock, re-read first: another window may have replayed or queued some
+        more = await withLockFile(this.lockPath, async () => {
+          this.load();
+          const op = this.ops[0];
+          if (!op) return false;
+          try {
+            await this.replay(op, apiToken, workspaceId);
+          } catch (error) {
+            if (isRetryableTogglError(error)) {
+              log(`still offline, ${this.ops.length} operation(s) pending`);
+              return false;
+            }
+            console.error(`Toggl: dropping ${op.kind} for entry ${op.entryId} after API error:`, error);
+          }
+          this.ops = this.ops.filter(o => o.id !== op.id);
+          this.save();
+          return true;
+        });
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private async replay(op: JournalOp, apiToken: string, workspaceId: number): Promise<void> {
+    const auth = { username: apiToken, password: 'api_token' };
+    const entriesUrl = `${TOGGL_API_URL}/workspaces/${workspaceId}/time_entries`;
+
+    if (op.kind === 'start') {
+      // If the matching stop is also queued, create the entry already stopped so
+      // Toggl doesn't auto-stop whatever is running on the server right now
+      const stopOp = this.ops.find(o => o.kind === 'stop' && o.entryId === op.entryId);
+      const payload = { ...op.payload, start: op.at };
+      if (stopOp) {
+        payload.stop = stopOp.at;
+        payload.duration = Math.max(0, Math.round((Date.parse(stopOp.at) - Date.parse(op.at)) / 1000));
+      }
+      const localId = op.entryId;
+      const response = await axios.post(entriesUrl, payload, { auth });
+      const entryId: number = response.data.id;
+
+      // Point later operations at the real entry
+      for (const o of this.ops) {
+        if (o.entryId === localId) o.entryId = entryId;
+      }
+      if (stopOp) {
+        this.ops = this.ops.filter(o => o.id !== stopOp.id);
+      }
+      log(`replayed start of "${payload.description}" as entry ${entryId}`);
+      this.resolved[localId] = entryId;
+      const localIds = Object.keys(this.resolved);
+      for (const old of localIds.slice(0, Math.max(0, localIds.length - JOURNAL_RESOLVED_MAX))) {
+        delete this.resolved[old];
+      }
+      this.seenResolved.add(String(localId));
+      this._onDidResolveEntry.fire({ localId, entryId });
+      this._onDidCreateEntry.fire(entryId);
+      return;
+    }
+
+    if (op.entryId < 0) {
+      // The start for this local entry was dropped, nothing to apply it to
+      log(`skipping ${op.kind} for unsynced local entry ${op.entryId}`);
+      return;
+    }
+
+    const server = await this.fetchEntry(op.entryId, auth);
+    if (!server) {
+      log(`entry ${op.entryId} no longer exists on the server, skipping ${op.kind}`);
+      return;
+    }
+
+    if (op.kind === 'update') {
+      await axios.put(`${entriesUrl}/${op.entryId}`, op.payload, { auth });
+      log(`replayed update of entry ${op.entryId}`);
+      return;
+    }
+
+    if (op.kind === 'delete') {
+      await axios.delete(`${entriesUrl}/${op.entryId}`, { auth });
+      log(`replayed delete of entry ${op.entryId}`);
+      return;
+    }
+
+    if (op.kind === 'stop') {
+      if (server.duration >= 0) {
+        // Stopped elsewhere (web app, another machine) - the server wins
+        log(`entry ${op.entryId} was already stopped on the server at ${server.stop}, keeping it`);
+        return;
+      }
+      await axios.put(`${entriesUrl}/${op.entryId}`, { stop: op.at }, { auth });
+      log(`replayed stop of entry ${op.entryId} at ${op.at}`);
+      return;
+    }
+
+    // continue
+    if (server.duration < 0) {
+      log(`entry ${op.entryId} is already running on the server`);
+      return;
+    }
+    const current = await axios.get(`${TOGGL_API_URL}/me/time_entries/current`, { auth });
+    if (current.data && current.data.id !== op.entryId && Date.parse(current.data.start) > Date.parse(op.at)) {
+      // Something newer was started elsewhere while we were offline
+      log(`not continuing entry ${op.entryId}, "${current.data.description}" was started later on the server`);
+      return;
+    }
+    await axios.put(`${entriesUrl}/${op.entryId}`, { duration: -1, stop: null }, { auth });
+    log(`replayed continue of entry ${op.entryId}`);
+  }
+
+  private async fetchEntry(entryId: number, auth: { username: string; password: string }): Promise<any | null> {
+    try {
+      const response = await axios.get(`${TOGGL_API_URL}/me/time_entries/${entryId}`, { auth });
+      return response.data;
+    } catch (error: any) {
+      if (error?.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  dispose() {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    this._onDidChangePending.dispose();
+    this._onDidResolveEntry.dispose();
+    this._onDidCreateEntry.dispose();
+  }
+}
+
+// ========== Branch Change Detection ==========
+
+/**
+ * Fires when the active repository's HEAD changes. Uses the built-in Git
+ * extension's `repository.state.onDidChange`, falling back to watching the
+ * repo's HEAD file when the Git extension doesn't know the repository.
+ */
+class BranchWatcher implements vscode.Disposable {
+  private lastKey: string = '';
+  private repoSubscription: vscode.Disposable | null = null;
+  private headWatcher: fs.FSWatcher | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private disposables: vscode.Disposable[] = [];
+
+  private _onDidChangeBranch = new vscode.EventEmitter<void>();
+  readonly onDidChangeBranch = this._onDidChangeBranch.event;
+
+  async initialize(): Promise<void> {
+    const api = await getGitApi();
+    if (api?.onDidOpenRepository) {
+      // The Git extension discovers repositories after we activate
+      this.disposables.push(api.onDidOpenRepository((repo: any) => {
+        if (repo.rootUri?.fsPath === getWorkspaceRoot()) this.retarget();
+      }));
+    }
+    await this.retarget();
+  }
+
+  /**
+   * Attach to the current active repository and fire once for it.
+   */
+  async retarget(): Promise<void> {
+    this.detach();
+    const root = getWorkspaceRoot();
+    if (root) {
+      const api = await getGitApi();
+      const repo = (api?.repositories || []).find((r: any) => r.rootUri?.fsPath === root);
+      if (repo?.state?.onDidChange) {
+        this.repoSubscription = repo.state.onDidChange(() => this.schedule());
+      } else {
+        await this.watchHeadFile(root);
+      }
+    }
+    this.lastKey = '';
+    this.schedule();
+  }
+
+  private async watchHeadFile(root: string): Promise<void> {
+    const gitDir = await getGitDir(root);
+    if (!gitDir) return; // Not a git repo (yet) - the safety poll still covers it
+    try {
+      // HEAD is replaced by rename, so watch the directory rather than the file
+      const watcher = fs.watch(gitDir, (_event, filename) => {
+        if (filename === 'HEAD') this.schedule();
+      });
+      // E.g. the .git directory was deleted or the watch limit hit; unhandled, this would crash the extension host
+      watcher.on('error', error => {
+        console.error(`Toggl: stopped watching ${gitDir}, relying on the safety poll:`, error);
+        watcher.close();
+        if (this.headWatcher === watcher) this.headWatcher = null;
+      });
+      this.headWatcher = watcher;
+    } catch {
+      // Watching isn't supported here - the safety poll still covers it
+    }
+  }
+
+  private schedule() {
+    // state.onDidChange also fires for every working tree change; coalesce and dedupe
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(async () => {
+      this.debounceTimer = null;
+      const root = getWorkspaceRoot();
+      const branch = await getCurrentBranchName();
+      const operation = root ? await detectGitOperation(root, branch) : null;
+      const key = `${root}::${branch}::${operation?.kind || ''}`;
+      if (key !== this.lastKey) {
+        this.lastKey = key;
+        this._onDidChangeBranch.fire();
+      }
+    }, 300);
+  }
+
+  private detach() {
+    this.repoSubscription?.dispose();
+    this.repoSubscription = null;
+    this.headWatcher?.close();
+    this.headWatcher = null;
+  }
+
+  dispose() {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.detach();
+    this.disposables.forEach(d => d.dispose());
+    this._onDidChangeBranch.dispose();
+  }
+}
+
+// ========== Cross-Window Timer Ownership ==========
+
+interface TimerOwnerRecord {
+  windowId: string;
+  pid: number;
+  windowName: string;
+  repo: string;
+  description: string;
+  heartbeat: number;
+}
+
+interface TimerLockState {
+  owner: TimerOwnerRecord | null;
+  // Focused window waiting out the handoff grace period
+  candidate: { windowId: string; since: number } | null;
+}
+
+// An owner that hasn't written a heartbeat for this long is considered gone
+const OWNER_STALE_MS = 30000;
+const OWNERSHIP_TICK_MS = 5000;
+
+/**
+ * Coordinates VS Code windows through a lock file in global storage so that
+ * exactly one window drives the Toggl timer. A focused window becomes the
+ * candidate and takes over after the handoff grace period; the previous
+ * owner notices on its next tick and goes quiet. Every read-modify-write of
+ * the file holds `timer-owner.json.lock`, so two windows can't both claim it.
+ */
+class TimerOwnershipCoordinator implements vscode.Disposable {
+  readonly windowId = `${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+  private filePath: string;
+  private state: TimerLockState = { owner: null, candidate: null };
+  private focused: boolean = vscode.window.state.focused;
+  private info: { repo: string; description: string } = { repo: '', description: '' };
+  private tickInterval: NodeJS.Timeout | null = null;
+  private wasOwner: boolean = false;
+
+  private _onDidChangeOwnership = new vscode.EventEmitter<boolean>();
+  // Fires with `true` when this window becomes owner, `false` when it loses it
+  readonly onDidChangeOwnership = this._onDidChangeOwnership.event;
+  private _onDidChangeOwner = new vscode.EventEmitter<TimerOwnerRecord | null>();
+  readonly onDidChangeOwner = this._onDidChangeOwner.event;
+
+  constructor(storageDir: string) {
+    this.filePath = path.join(storageDir, 'timer-owner.json');
+    this.read();
+    this.tickInterval = setInterval(() => this.tick(), OWNERSHIP_TICK_MS);
+  }
+
+  get owner(): TimerOwnerRecord | null {
+    return this.state.owner;
+  }
+
+  isOwner(): boolean {
+    return this.state.owner?.windowId === this.windowId;
+  }
+
+  private isAlive(owner: TimerOwnerRecord | null): boolean {
+    return !!owner && Date.now() - owner.heartbeat < OWNER_STALE_MS;
+  }
+
+  // Errors are logged rather than thrown: callers run from timers and focus events
+  private locked<T>(fn: () => T, fallback: T): Promise<T> {
+    return withLockFile(`${this.filePath}.lock`, fn).catch(error => {
+      console.error('Toggl: failed to lock the timer owner file', error);
+      return fallback;
+    });
+  }
+
+  private read(): void {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        this.state = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      }
+    } catch {
+      // Half-written by another window - keep the last known state
+    }
+  }
+
+  private write(): void {
+    try {
+      const dir = path.dirname(this.filePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      // Write-then-rename so other windows never read a partial file
+      const tmpPath = `${this.filePath}.${this.windowId}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(this.state, null, 2));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      console.error('Failed to write Toggl timer owner file:', error);
+    }
+  }
+
+  private becomeOwner(): void {
+    this.state.owner = {
+      windowId: this.windowId,
+      pid: process.pid,
+      windowName: vscode.workspace.name || 'Untitled',
+      repo: this.info.repo,
+      description: this.info.description,
+      heartbeat: Date.now(),
+    };
+    if (this.state.candidate?.windowId === this.windowId) {
+      this.state.candidate = null;
+    }
+    this.write();
+    log(`window ${this.windowId} now owns the timer`);
+  }
+
+  /**
+   * Take ownership right away if nobody (alive) holds it. Returns whether
+   * this window is the owner afterwards.
+   */
+  async tryClaim(): Promise<boolean> {
+    await this.locked(() => {
+      this.read();
+      if (!this.isOwner() && !this.isAlive(this.state.owner)) {
+        this.becomeOwner();
+      }
+    }, undefined);
+    this.notify();
+    return this.isOwner();
+  }
+
+  async setFocused(focused: boolean): Promise<void> {
+    this.focused = focused;
+    const claimed = await this.locked(() => {
+      this.read();
+      if (!focused) {
+        // Left before the grace period ran out - withdraw
+        if (this.state.candidate?.windowId === this.windowId) {
+          this.state.candidate = null;
+          this.write();
+        }
+        return false;
+      }
+      if (this.isOwner()) {
+        // Back in the owning window - cancel any pending handoff
+        if (this.state.candidate) {
+          this.state.candidate = null;
+          this.write();
+        }
+        return false;
+      }
+      if (!this.isAlive(this.state.owner)) {
+        this.becomeOwner();
+        return true;
+      }
+      this.state.candidate = { windowId: this.windowId, since: Date.now() };
+      this.write();
+      return false;
+    }, false);
+    if (claimed) this.notify();
+  }
+
+  /** Owner-side details shown in other windows' status bars. */
+  async update(info: { repo: string; description: string }): Promise<void> {
+    this.info = info;
+    if (!this.isOwner()) return;
+    const kept = await this.locked(() => {
+      this.read();
+      if (!this.isOwner()) return false;
+      this.state.owner = { ...this.state.owner!, ...info, heartbeat: Date.now() };
+      this.write();
+      return true;
+    }, true);
+    if (!kept) this.notify();
+  }
+
+  async release(): Promise<void> {
+    await this.locked(() => {
+      this.read();
+      if (this.isOwner()) {
+        this.state.owner = null;
+        this.write();
+      }
+    }, undefined);
+    this.notify();
+  }
+
+  private async tick(): Promise<void> {
+    const graceMs = (vscode.workspace.getConfiguration('togglTrackAuto').get<number>('windowHandoffSeconds') ?? 30) * 1000;
+    await this.locked(() => {
+      this.read();
+      if (this.isOwner()) {
+        this.state.owner!.heartbeat = Date.now();
+        this.write();
+      } else if (this.focused && vscode.window.state.focused) {
+        const candidate = this.state.candidate;
+        if (!this.isAlive(this.state.owner)) {
+          this.becomeOwner();
+        } else if (candidate?.windowId === this.windowId && Date.now() - candidate.since >= graceMs) {
+          this.becomeOwner();
+        } else if (candidate?.windowId !== this.windowId) {
+          this.state.candidate = { windowId: this.windowId, since: Date.now() };
+          this.write();
+        }
+      }
+    }, undefined);
+    this.notify();
+  }
+
+  private notify(): void {
+    const owner = this.isOwner();
+    if (owner !== this.wasOwner) {
+      this.wasOwner = owner;
+      this._onDidChangeOwnership.fire(owner);
+    }
+    this._onDidChangeOwner.fire(this.state.owner);
+  }
+
+  dispose() {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    // The lock is normally free, in which case this completes synchronously
+    this.release().finally(() => {
+      this._onDidChangeOwnership.dispose();
+      this._onDidChangeOwner.dispose();
+    });
+  }
+}
+
+// ========== Working Hours ==========
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+interface WorkingHours {
+  // IANA time zone the schedule is written in ('' = this machine's)
+  timezone: string;
+  // Working window per weekday (0 = Sunday), null on days off
+  days: ({ start: string; end: string } | null)[];
+}
+
+// Set once the daily-target notification has been shown for a day (globalState)
+const DAILY_TARGET_KEY = 'togglTrackAuto.dailyTargetNotified';
+
+function getWorkingHours(): WorkingHours {
+  const configured = vscode.workspace.getConfiguration('togglTrackAuto').get<any>('workingHours') || {};
+
+  let timezone: string = configured.timezone || '';
+  if (timezone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      console.error(`Toggl: unknown time zone "${timezone}" in workingHours, using the system time zone`);
+      timezone = '';
+    }
+  }
+
+  const perDay = WEEKDAYS.some(name => name in configured);
+  const days = WEEKDAYS.map((name, index) => {
+    if (perDay) {
+      const match = typeof configured[name] === 'string' && configured[name].match(/^\s*(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})\s*$/);
+      return match ? { start: match[1], end: match[2] } : null;
+    }
+    // Single window on the listed days
+    return (configured.days || [1, 2, 3, 4, 5]).includes(index)
+      ? { start: configured.start || '09:00', end: configured.end || '18:00' }
+      : null;
+  });
+  return { timezone, days };
+}
+
+function getZonedClock(date: Date, timeZone: string): { dateKey: string; weekday: number; minutes: number } {
+  if (!timeZone) {
+    return { dateKey: formatDateKey(date), weekday: date.getDay(), minutes: date.getHours() * 60 + date.getMinutes() };
+  }
+  const parts: { [type: string]: string } = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone, year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', hourCycle: 'h23', weekday: 'short',
+  }).formatToParts(date).forEach(part => { parts[part.type] = part.value; });
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/** The instant at which the clock in `timeZone` shows `minutes` past midnight on `dateKey`. */
+function zonedTimeToDate(dateKey: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  if (!timeZone) {
+    return new Date(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  }
+  const guess = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  const shown = getZonedClock(new Date(guess), timeZone);
+  const [shownYear, shownMonth, shownDay] = shown.dateKey.split('-').map(Number);
+  const shownAsUtc = Date.UTC(shownYear, shownMonth - 1, shownDay, Math.floor(shown.minutes / 60), shown.minutes % 60);
+  return new Date(guess - (shownAsUtc - guess));
+}
+
+function getWorkingWindow(dateKey: string, hours: WorkingHours): { start: Date; end: Date } | null {
+  const day = hours.days[parseDateKey(dateKey)!.getDay()];
+  if (!day) return null;
+  return {
+    start: zonedTimeToDate(dateKey, parseClock(day.start), hours.timezone),
+    end: zonedTimeToDate(dateKey, parseClock(day.end), hours.timezone),
+  };
+}
+
+function isWithinWorkingHours(at: Date, hours: WorkingHours): boolean {
+  const clock = getZonedClock(at, hours.timezone);
+  const day = hours.days[clock.weekday];
+  return !!day && clock.minutes >= parseClock(day.start) && clock.minutes < parseClock(day.end);
+}
+
+// ========== Time Reports ==========
+
+let entryTaskStore: vscode.Memento | null = null;
+
+function recordEntryTask(entryId: number, taskId: string | null | undefined) {
+  if (!entryTaskStore || !taskId) return;
+  const recorded = entryTaskStore.get<{ [entryId: string]: string }>(ENTRY_TASKS_KEY) || {};
+  delete recorded[entryId];
+  recorded[entryId] = taskId;
+  // Insertion order is recording order, so the oldest go first
+  const ids = Object.keys(recorded);
+  for (const id of ids.slice(0, Math.max(0, ids.length - ENTRY_TASKS_MAX))) delete recorded[id];
+  entryTaskStore.update(ENTRY_TASKS_KEY, recorded);
+}
+
+function getRecordedEntryTask(entryId: number): string | null {
+  return entryTaskStore?.get<{ [entryId: string]: string }>(ENTRY_TASKS_KEY)?.[entryId] ?? null;
+}
+
+// Offline starts are recorded under their local placeholder until the journal replays them
+function moveRecordedEntryTask(localId: number, entryId: number) {
+  const taskId = getRecordedEntryTask(localId);
+  if (!taskId || !entryTaskStore) return;
+  const recorded = { ...entryTaskStore.get<{ [entryId: string]: string }>(ENTRY_TASKS_KEY) };
+  delete recorded[localId];
+  entryTaskStore.update(ENTRY_TASKS_KEY, recorded);
+  recordEntryTask(entryId, taskId);
+}
+
+interface ReportEntry {
+  id: number;
+  description: string;
+  start: Date;
+  end: Date;
+  seconds: number;
+  running: boolean;
+  projectId: number | null;
+  projectName: string;
+  tags: string[];
+  taskId: string | null;
+  billable: boolean;
+}
+
+type ReportGrouping = 'task' | 'project' | 'tag';
+
+interface ReportGroup {
+  key: string;
+  label: string;
+  url: string | null;
+  seconds: number;
+  entries: ReportEntry[];
+}
+
+// Gaps shorter than this are noise (switching windows, grabbing a coffee)
+const MIN_REPORTED_GAP_MS = 5 * 60 * 1000;
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function startOfWeek(date: Date): Date {
+  // Weeks start on Monday
+  const day = startOfDay(date);
+  return addDays(day, -((day.getDay() + 6) % 7));
+}
+
+function formatDateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseDateKey(key: string): Date | null {
+  const match = key.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+function parseClock(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+async function fetchTogglEntries(from: Date, to: Date): Promise<any[]> {
+  const apiToken = getTogglToken();
+  if (!apiToken) throw new Error('Toggl API token not configured');
+
+  const response = await axios.get(`${TOGGL_API_URL}/me/time_entries`, {
+    params: { start_date: from.toISOString(), end_date: to.toISOString() },
+    auth: { username: apiToken, password: 'api_token' },
+  });
+  return response.data || [];
+}
+
+async function fetchTogglProjects(): Promise<Map<number, string>> {
+  const config = vscode.workspace.getConfiguration('togglTrackAuto');
+  const apiToken = getTogglToken();
+  const workspaceId = config.get<number>('workspaceId');
+  const projects = new Map<number, string>();
+  if (!apiToken || !workspaceId) return projects;
+
+  try {
+    const response = await axios.get(`${TOGGL_API_URL}/workspaces/${workspaceId}/projects`, {
+      auth: { username: apiToken, password: 'api_token' },
+    });
+    for (const project of response.data || []) {
+      projects.set(project.id, project.name);
+    }
+  } catch (error) {
+    console.error('Failed to fetch Toggl projects:', error);
+  }
+  return projects;
+}
+
+async function fetchTogglTags(): Promise<string[]> {
+  const config = vscode.workspace.getConfiguration('togglTrackAuto');
+  const apiToken = getTogglToken();
+  const workspaceId = config.get<number>('workspaceId');
+  if (!apiToken || !workspaceId) return [];
+
+  try {
+    const response = await axios.get(`${TOGGL_API_URL}/workspaces/${workspaceId}/tags`, {
+      auth: { username: apiToken, password: 'api_token' },
+    });
+    return (response.data || []).map((tag: any) => tag.name);
+  } catch (error) {
+    console.error('Failed to fetch Toggl tags:', error);
+    return [];
+  }
+}
+
+async function fetchMondayTaskSummaries(ids: string[]): Promise<Map<string, MondayTaskSummary>> {
+  const summaries = new Map<string, MondayTaskSummary>();
+  const token = getMondayToken();
+  if (!isMondayEnabled() || !token || ids.length === 0) return summaries;
+
+  // Monday returns at most 100 items per `items(ids:)` query
+  const unique = Array.from(new Set(ids));
+  for (let i = 0; i < unique.length; i += 100) {
+    const chunk = unique.slice(i, i + 100);
+    try {
+      const query = `query { items(ids: [${chunk.join(', ')}], limit: 100) { id name group { title } column_values(ids: ["status9", "dup__of_priority_mkkassyk"]) { id text } } }`;
+      const response = await axios.post(MONDAY_API_URL, { query }, {
+        headers: { 'Authorization': token, 'Content-Type': 'application/json' },
+      });
+      for (const item of response.data?.data?.items || []) {
+        summaries.set(String(item.id), {
+          name: item.name,
+          group: item.group?.title || '',
+          status: item.column_values?.find((c: any) => c.id === 'status9')?.text || '',
+          priority: item.column_values?.find((c: any) => c.id === 'dup__of_priority_mkkassyk')?.text || '',
+        });
+      }
+    } catch (error) {
+      console.error('Failed to fetch Monday.com tasks:', error);
+    }
+  }
+  return summaries;
+}
+
+async function loadReportEntries(from: Date, to: Date): Promise<ReportEntry[]> {
+  const [raw, projects] = await Promise.all([fetchTogglEntries(from, to), fetchTogglProjects()]);
+  const now = Date.now();
+
+  return raw
+    .filter((e: any) => e.start)
+    .map((e: any): ReportEntry => {
+      const start = new Date(e.start);
+      const running = e.duration < 0;
+      const end = running ? new Date(now) : e.stop ? new Date(e.stop) : new Date(start.getTime() + e.duration * 1000);
+      return {
+        id: e.id,
+        description: e.description || '',
+        start,
+        end,
+        seconds: Math.max(0, Math.round((end.getTime() - start.getTime()) / 1000)),
+        running,
+        projectId: e.project_id ?? null,
+        projectName: e.project_id ? projects.get(e.project_id) || `Project ${e.project_id}` : '',
+        tags: e.tags || [],
+        // Descriptions carry the ticket ID, so the branch pattern finds it there too
+        taskId: getRecordedEntryTask(e.id) ?? (e.description ? extractTaskIdFromBranch(e.description) : null),
+        billable: !!e.billable,
+      };
+    })
+    .sort((a: ReportEntry, b: ReportEntry) => a.start.getTime() - b.start.getTime());
+}
+
+function groupReportEntries(entries: ReportEntry[], grouping: ReportGrouping, tasks: Map<string, MondayTaskSummary>): ReportGroup[] {
+  const groups = new Map<string, ReportGroup>();
+  const add = (key: string, label: string, url: string | null, entry: ReportEntry) => {
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label, url, seconds: 0, entries: [] };
+      groups.set(key, group);
+    }
+    group.seconds += entry.seconds;
+    group.entries.push(entry);
+  };
+
+  for (const entry of entries) {
+    if (grouping === 'task') {
+      if (entry.taskId) {
+        const label = tasks.get(entry.taskId)?.name || entry.description;
+        const url = isMondayEnabled() ? getMondayTaskUrl(getMondayBoardId(), entry.taskId) : null;
+        add(`task:${entry.taskId}`, label, url, entry);
+      } else {
+        add(`desc:${entry.description}`, entry.description || '(no description)', null, entry);
+      }
+    } else if (grouping === 'project') {
+      add(`project:${entry.projectId ?? ''}`, entry.projectName || '(no project)', null, entry);
+    } else if (entry.tags.length === 0) {
+      add('tag:', '(no tags)', null, entry);
+    } else {
+      // An entry with several tags counts towards each of them
+      entry.tags.forEach(tag => add(`tag:${tag}`, tag, null, entry));
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.seconds - a.seconds);
+}
+
+function findUntrackedGaps(entries: ReportEntry[], day: Date, hours: WorkingHours): { start: Date; end: Date }[] {
+  const window = getWorkingWindow(formatDateKey(day), hours);
+  if (!window) return [];
+
+  const windowStart = window.start.getTime();
+  const windowEnd = Math.min(window.end.getTime(), Date.now());
+  if (windowEnd <= windowStart) return [];
+
+  const gaps: { start: Date; end: Date }[] = [];
+  let cursor = windowStart;
+  for (const entry of entries) {
+    const entryStart = entry.start.getTime();
+    const entryEnd = entry.end.getTime();
+    if (entryEnd <= cursor || entryStart >= windowEnd) continue;
+    if (entryStart - cursor >= MIN_REPORTED_GAP_MS) {
+      gaps.push({ start: new Date(cursor), end: new Date(entryStart) });
+    }
+    cursor = Math.max(cursor, entryEnd);
+  }
+  if (windowEnd - cursor >= MIN_REPORTED_GAP_MS) {
+    gaps.push({ start: new Date(cursor), end: new Date(windowEnd) });
+  }
+  return gaps;
+}
+
+interface TaskTimeSummary {
+  today: number;
+  week: number;
+  // Everything in the last `totalDays` days
+  total: number;
+  totalDays: number;
+  // Hours from the board's estimate column, if it has one
+  estimate: number | null;
+}
+
+function getTaskEstimateHours(task: MondayDetailedTask): number | null {
+  const configured = vscode.workspace.getConfiguration('togglTrackAuto').get<string>('mondayEstimateColumn');
+  const text = configured
+    ? getColumnValue(task, configured)
+    : task.column_values.find(c => (c.column?.title || '').toLowerCase().includes('estimate'))?.text || '';
+  const hours = parseFloat(text.replace(',', '.'));
+  return isNaN(hours) || hours <= 0 ? null : hours;
+}
+
+// Tracked time per task; reloading it means fetching the whole lookback period from Toggl
+const TASK_TIME_CACHE_MS = 5 * 60 * 1000;
+const taskTimeCache = new Map<string, { at: number; summary: TaskTimeSummary }>();
+
+async function fetchTaskTimeSummary(task: MondayDetailedTask): Promise<TaskTimeSummary> {
+  const cached = taskTimeCache.get(task.id);
+  if (cached && Date.now() - cached.at < TASK_TIME_CACHE_MS) {
+    return { ...cached.summary, estimate: getTaskEstimateHours(task) };
+  }
+
+  const lookbackDays = vscode.workspace.getConfiguration('togglTrackAuto').get<number>('taskTimeLookbackDays') ?? 90;
+  const today = startOfDay(new Date());
+  const weekStart = startOfWeek(today);
+  const entries = (await loadReportEntries(addDays(today, -lookbackDays), addDays(today, 1)))
+    .filter(e => e.taskId === task.id);
+
+  const sumSince = (since: Date) => entries
+    .filter(e => e.end > since)
+    .reduce((sum, e) => sum + (e.end.getTime() - Math.max(e.start.getTime(), since.getTime())) / 1000, 0);
+
+  const summary: TaskTimeSummary = {
+    today: sumSince(today),
+    week: sumSince(weekStart),
+    total: entries.reduce((sum, e) => sum + e.seconds, 0),
+    totalDays: lookbackDays,
+    estimate: getTaskEstimateHours(task),
+  };
+  taskTimeCache.set(task.id, { at: Date.now(), summary });
+  return summary;
+}
+
+function formatProgressBar(ratio: number, width: number = 10): string {
+  const filled = Math.min(width, Math.round(ratio * width));
+  return '█'.repeat(filled) + '░'.repeat(width - filled);
+}
+
+class TimeReportPanel {
+  public static readonly viewType = 'togglTimeReport';
+  private static current: TimeReportPanel | undefined;
+
+  private range: 'day' | 'week' | 'custom' = 'day';
+  private offset = 0;
+  private customFrom = '';
+  private customTo = '';
+  private grouping: ReportGrouping = 'task';
+
+  static show() {
+    if (TimeReportPanel.current) {
+      TimeReportPanel.current.panel.reveal();
+      TimeReportPanel.current.refresh();
+      return;
+    }
+    const panel = vscode.window.createWebviewPanel(TimeReportPanel.viewType, 'Toggl Report', vscode.ViewColumn.Active, {
+      enableScripts: true,
+    });
+    TimeReportPanel.current = new TimeReportPanel(panel);
+  }
+
+  private constructor(private readonly panel: vscode.WebviewPanel) {
+    panel.onDidDispose(() => { TimeReportPanel.current = undefined; });
+    panel.webview.onDidReceiveMessage(msg => {
+      if (msg.type === 'range') {
+        this.range = msg.range;
+        this.offset = 0;
+      } else if (msg.type === 'shift') {
+        this.offset += msg.delta;
+      } else if (msg.type === 'custom') {
+        this.range = 'custom';
+        this.customFrom = msg.from;
+        this.customTo = msg.to;
+      } else if (msg.type === 'group') {
+        this.grouping = msg.grouping;
+      }
+      this.refresh();
+    });
+    this.refresh();
+  }
+
+  private getRange(): { from: Date; to: Date; title: string } {
+    const today = startOfDay(new Date());
+    if (this.range === 'week') {
+      const from = addDays(startOfWeek(today), this.offset * 7);
+      return { from, to: addDays(from, 7), title: `Week of ${from.toLocaleDateString()}` };
+    }
+    if (this.range === 'custom') {
+      const from = parseDateKey(this.customFrom) || today;
+      const to = addDays(parseDateKey(this.customTo) || from, 1);
+      return { from, to, title: `${from.toLocaleDateString()} – ${addDays(to, -1).toLocaleDateString()}` };
+    }
+    const from = addDays(today, this.offset);
+    return { from, to: addDays(from, 1), title: from.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }) };
+  }
+
+  async refresh() {
+    const { from, to, title } = this.getRange();
+    try {
+      const entries = await loadReportEntries(from, to);
+      const taskIds = Array.from(new Set(entries.map(e => e.taskId).filter((id): id is string => !!id)));
+      const tasks = this.grouping === 'task' ? await fetchMondayTaskSummaries(taskIds) : new Map<string, MondayTaskSummary>();
+      this.panel.webview.html = this.getHtml(title, from, to, entries, groupReportEntries(entries, this.grouping, tasks));
+    } catch (error: any) {
+      console.error('Failed to build Toggl report:', error);
+      this.panel.webview.html = this.getHtml(title, from, to, [], [], error.message || 'Failed to load time entries');
+    }
+  }
+
+  private getHtml(title: string, from: Date, to: Date, entries: ReportEntry[], groups: ReportGroup[], error?: string): string {
+    const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    const time = (d: Date) => d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const hours = getWorkingHours();
+    const total = entries.reduce((sum, e) => sum + e.seconds, 0);
+    const billable = entries.filter(e => e.billable).reduce((sum, e) => sum + e.seconds, 0);
+
+    // One timeline bar per day, entries clipped to that day
+    const dayRows: string[] = [];
+    let untracked = 0;
+    for (let day = new Date(from); day < to; day = addDays(day, 1)) {
+      const dayStart = day.getTime();
+      const dayEnd = addDays(day, 1).getTime();
+      const dayEntries = entries.filter(e => e.end.getTime() > dayStart && e.start.getTime() < dayEnd);
+      const pct = (t: number) => ((Math.min(Math.max(t, dayStart), dayEnd) - dayStart) / (dayEnd - dayStart) * 100).toFixed(2);
+      const daySeconds = dayEntries.reduce((sum, e) =>
+        sum + (Math.min(e.end.getTime(), dayEnd) - Math.max(e.start.getTime(), dayStart)) / 1000, 0);
+      const gaps = findUntrackedGaps(dayEntries, day, hours);
+      untracked += gaps.reduce((sum, g) => sum + (g.end.getTime() - g.start.getTime()) / 1000, 0);
+
+      const segments: string[] = [];
+      const window = getWorkingWindow(formatDateKey(day), hours);
+      if (window) {
+        const workStart = window.start.getTime();
+        const workEnd = window.end.getTime();
+        segments.push(`<div class="work" style="left:${pct(workStart)}%;width:${(Number(pct(workEnd)) - Number(pct(workStart))).toFixed(2)}%"></div>`);
+      }
+      gaps.forEach(g => segments.push(
+        `<div class="gap" style="left:${pct(g.start.getTime())}%;width:${(Number(pct(g.end.getTime())) - Number(pct(g.start.getTime()))).toFixed(2)}%" title="Untracked ${time(g.start)} – ${time(g.end)}"></div>`
+      ));
+      dayEntries.forEach(e => segments.push(
+        `<div class="seg${e.running ? ' running' : ''}" style="left:${pct(e.start.getTime())}%;width:${Math.max(0.3, Number(pct(e.end.getTime())) - Number(pct(e.start.getTime()))).toFixed(2)}%" title="${esc(e.description)} (${time(e.start)} – ${time(e.end)})"></div>`
+      ));
+
+      const gapList = gaps.length
+        ? '<div class="gaps">Untracked: ' + gaps.map(g => `${time(g.start)}–${time(g.end)}`).join(', ') + '</div>'
+        : '';
+      dayRows.push(
+        '<div class="day">' +
+        `<div class="day-hdr"><span>${esc(day.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' }))}</span><span class="muted">${formatDuration(daySeconds)}</span></div>` +
+        `<div class="bar">${segments.join('')}</div>` +
+        gapList +
+        '</div>'
+      );
+    }
+
+    const groupRows = groups.map(g => {
+      const label = g.url ? `<a href="${esc(g.url)}">${esc(g.label)} ↗</a>` : esc(g.label);
+      const share = total > 0 ? Math.round(g.seconds / total * 100) : 0;
+      return `<tr><td>${label}</td><td class="num">${g.entries.length}</td><td class="num">${formatDuration(g.seconds)}</td><td class="num muted">${share}%</td></tr>`;
+    });
+
+    const button = (type: string, value: string, text: string, active: boolean) =>
+      `<button class="${active ? 'active' : ''}" onclick="vscode.postMessage({type:'${type}',${type === 'group' ? 'grouping' : 'range'}:'${value}'})">${text}</button>`;
+
+    return [
+      '<!DOCTYPE html><html><head><style>',
+      'body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 16px 24px; font-size: 13px; }',
+      'h1 { font-size: 18px; font-weight: 600; margin: 0 0 12px; }',
+      '.toolbar { display: flex; flex-wrap: wrap; gap: 6px; align-items: center; margin-bottom: 16px; }',
+      'button { padding: 4px 10px; border: 1px solid var(--vscode-button-border, transparent); border-radius: 4px; background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); cursor: pointer; font-family: inherit; font-size: 12px; }',
+      'button.active { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }',
+      'input { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 3px 6px; font-family: inherit; }',
+      '.sep { width: 12px; }',
+      '.totals { display: flex; gap: 24px; margin-bottom: 16px; }',
+      '.total b { display: block; font-size: 20px; }',
+      '.muted { opacity: 0.6; }',
+      '.day { margin-bottom: 10px; }',
+      '.day-hdr { display: flex; justify-content: space-between; margin-bottom: 3px; }',
+      '.bar { position: relative; height: 14px; background: var(--vscode-editorWidget-background); border-radius: 3px; overflow: hidden; }',
+      '.bar div { position: absolute; top: 0; bottom: 0; }',
+      '.work { background: rgba(128,128,128,0.15); }',
+      '.gap { background: rgba(226,68,92,0.35); }',
+      '.seg { background: var(--vscode-charts-blue, #0073ea); border-radius: 2px; }',
+      '.seg.running { background: var(--vscode-charts-green, #00c875); }',
+      '.gaps { font-size: 11px; color: var(--vscode-errorForeground); margin-top: 2px; }',
+      'table { width: 100%; border-collapse: collapse; margin-top: 8px; }',
+      'th, td { text-align: left; padding: 5px 8px; border-bottom: 1px solid var(--vscode-panel-border); }',
+      'th { font-weight: 600; }',
+      '.num { text-align: right; white-space: nowrap; }',
+      'h2 { font-size: 14px; font-weight: 600; margin: 20px 0 6px; }',
+      'a { color: var(--vscode-textLink-foreground); text-decoration: none; }',
+      'a:hover { text-decoration: underline; }',
+      '.error { color: var(--vscode-errorForeground); }',
+      '</style></head><body>',
+      `<h1>${esc(title)}</h1>`,
+      '<div class="toolbar">',
+      button('range', 'day', 'Day', this.range === 'day'),
+      button('range', 'week', 'Week', this.range === 'week'),
+      this.range !== 'custom' ? '<button onclick="vscode.postMessage({type:\'shift\',delta:-1})">◀</button><button onclick="vscode.postMessage({type:\'shift\',delta:1})">▶</button>' : '',
+      '<span class="sep"></span>',
+      `<input type="date" id="from" value="${formatDateKey(from)}"> – <input type="date" id="to" value="${formatDateKey(addDays(to, -1))}">`,
+      '<button onclick="vscode.postMessage({type:\'custom\',from:document.getElementById(\'from\').value,to:document.getElementById(\'to\').value})">Apply</button>',
+      '<span class="sep"></span>',
+      'Group by',
+      button('group', 'task', 'Task', this.grouping === 'task'),
+      button('group', 'project', 'Project', this.grouping === 'project'),
+      button('group', 'tag', 'Tag', this.grouping === 'tag'),
+      '</div>',
+      error ? `<p class="error">${esc(error)}</p>` : '',
+      '<div class="totals">',
+      `<div class="total"><b>${formatDuration(total)}</b><span class="muted">Tracked</span></div>`,
+      `<div class="total"><b>${formatDuration(billable)}</b><span class="muted">Billable</span></div>`,
+      `<div class="total"><b>${formatDuration(untracked)}</b><span class="muted">Untracked in working hours</span></div>`,
+      '</div>',
+      '<h2>Timeline</h2>',
+      dayRows.join('\n'),
+      `<h2>By ${this.grouping}</h2>`,
+      groupRows.length
+        ? '<table><tr><th>' + (this.grouping === 'task' ? 'Task' : this.grouping === 'project' ? 'Project' : 'Tag') + '</th><th class="num">Entries</th><th class="num">Time</th><th class="num">Share</th></tr>' + groupRows.join('') + '</table>'
+        : '<p class="muted">No time entries in this range.</p>',
+      '<script>const vscode = acquireVsCodeApi();</script>',
+      '</body></html>'
+    ].join('\n');
+  }
+}
+
+// ========== Timesheet Export ==========
+
+type TimesheetFormat = 'csv' | 'json' | 'md';
+type TimesheetGrouping = 'entry' | 'day' | 'task' | 'project';
+
+interface TimesheetRow {
+  date: string;
+  taskId: string;
+  taskName: string;
+  group: string;
+  status: string;
+  project: string;
+  description: string;
+  tags: string[];
+  entries: number;
+  seconds: number;
+}
+
+const TIMESHEET_COLUMNS: { key: keyof TimesheetRow | 'hours' | 'duration'; title: string }[] = [
+  { key: 'date', title: 'Date' },
+  { key: 'taskId', title: 'Task ID' },
+  { key: 'taskName', title: 'Task' },
+  { key: 'group', title: 'Group' },
+  { key: 'status', title: 'Status' },
+  { key: 'project', title: 'Project' },
+  { key: 'description', title: 'Description' },
+  { key: 'tags', title: 'Tags' },
+  { key: 'entries', title: 'Entries' },
+  { key: 'hours', title: 'Hours' },
+  { key: 'duration', title: 'Duration' },
+];
+
+function buildTimesheetRows(
+  entries: ReportEntry[],
+  tasks: Map<string, MondayTaskSummary>,
+  grouping: TimesheetGrouping,
+  roundingMinutes: number
+): TimesheetRow[] {
+  const rows = new Map<string, TimesheetRow>();
+
+  entries.forEach((entry, index) => {
+    const task = entry.taskId ? tasks.get(entry.taskId) : undefined;
+    const date = formatDateKey(entry.start);
+    const key = grouping === 'entry' ? String(index)
+      : grouping === 'day' ? `${date}::${entry.taskId || entry.description}`
+      : grouping === 'task' ? entry.taskId || `desc:${entry.description}`
+      : String(entry.projectId ?? '');
+
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        date: grouping === 'task' || grouping === 'project' ? '' : date,
+        taskId: grouping === 'project' ? '' : entry.taskId || '',
+        taskName: grouping === 'project' ? '' : task?.name || '',
+        group: grouping === 'project' ? '' : task?.group || '',
+        status: grouping === 'project' ? '' : task?.status || '',
+        project: entry.projectName,
+        description: grouping === 'project' ? '' : entry.description,
+        tags: [],
+        entries: 0,
+        seconds: 0,
+      };
+      rows.set(key, row);
+    }
+    row.entries++;
+    row.seconds += entry.seconds;
+    entry.tags.forEach(tag => { if (!row!.tags.includes(tag)) row!.tags.push(tag); });
+  });
+
+  // Round each line (not each entry) so a timesheet adds up the way it reads
+  const increment = roundingMinutes * 60;
+  const result = Array.from(rows.values());
+  if (increment > 0) {
+    result.forEach(row => { row.seconds = Math.ceil(row.seconds / increment) * increment; });
+  }
+  return result;
+}
+
+function timesheetCell(row: TimesheetRow, key: typeof TIMESHEET_COLUMNS[number]['key']): string {
+  if (key === 'hours') return (row.seconds / 3600).toFixed(2);
+  if (key === 'duration') return formatDuration(row.seconds);
+  if (key === 'tags') return row.tags.join(', ');
+  return String(row[key]);
+}
+
+function formatTimesheet(rows: TimesheetRow[], format: TimesheetFormat, from: Date, to: Date): string {
+  const columns = TIMESHEET_COLUMNS.filter(c => rows.some(r => timesheetCell(r, c.key) !== ''));
+  const totalSeconds = rows.reduce((sum, r) => sum + r.seconds, 0);
+
+  if (format === 'json') {
+    return JSON.stringify({
+      from: formatDateKey(from),
+      to: formatDateKey(addDays(to, -1)),
+      totalHours: Number((totalSeconds / 3600).toFixed(2)),
+      rows: rows.map(r => ({ ...r, hours: Number((r.seconds / 3600).toFixed(2)) })),
+    }, null, 2) + '\n';
+  }
+
+  if (format === 'csv') {
+    const csv = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    return [
+      columns.map(c => c.title).join(','),
+      ...rows.map(r => columns.map(c => csv(timesheetCell(r, c.key))).join(',')),
+    ].join('\n') + '\n';
+  }
+
+  const md = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  return [
+    `# Timesheet ${formatDateKey(from)} – ${formatDateKey(addDays(to, -1))}`,
+    '',
+    '| ' + columns.map(c => c.title).join(' | ') + ' |',
+    '| ' + columns.map(c => c.key === 'hours' || c.key === 'entries' ? '---:' : '---').join(' | ') + ' |',
+    ...rows.map(r => '| ' + columns.map(c => md(timesheetCell(r, c.key))).join(' | ') + ' |'),
+    '',
+    `**Total:** ${formatDuration(totalSeconds)} (${(totalSeconds / 3600).toFixed(2)} h)`,
+    '',
+  ].join('\n');
+}
+
+async function pickExportRange(): Promise<{ from: Date; to: Date } | null> {
+  const today = startOfDay(new Date());
+  const thisWeek = startOfWeek(today);
+  const thisMonth = new Date(today.getFullYear(), today.getMonth(), 1);
+  const choice = await vscode.window.showQuickPick([
+    { label: 'Today', from: today, to: addDays(today, 1) },
+    { label: 'Yesterday', from: addDays(today, -1), to: today },
+    { label: 'This week', from: thisWeek, to: addDays(thisWeek, 7) },
+    { label: 'Last week', from: addDays(thisWeek, -7), to: thisWeek },
+    { label: 'Last 2 weeks', from: addDays(thisWeek, -14), to: thisWeek },
+    { label: 'This month', from: thisMonth, to: new Date(today.getFullYear(), today.getMonth() + 1, 1) },
+    { label: 'Custom range...', from: null, to: null },
+  ], { placeHolder: 'Timesheet range' });
+  if (!choice) return null;
+  if (choice.from && choice.to) return { from: choice.from, to: choice.to };
+
+  const input = await vscode.window.showInputBox({
+    prompt: 'Date range (inclusive)',
+    placeHolder: 'YYYY-MM-DD YYYY-MM-DD',
+    value: `${formatDateKey(thisWeek)} ${formatDateKey(today)}`,
+    validateInput: value => {
+      const [start, end] = value.trim().split(/\s+/);
+      return parseDateKey(start || '') && parseDateKey(end || start || '') ? null : 'Use YYYY-MM-DD YYYY-MM-DD';
+    },
+  });
+  if (!input) return null;
+  const [start, end] = input.trim().split(/\s+/);
+  const from = parseDateKey(start)!;
+  return { from, to: addDays(parseDateKey(end || start)!, 1) };
+}
+
+async function exportTimesheet(): Promise<void> {
+  const range = await pickExportRange();
+  if (!range) return;
+
+  const grouping = await vscode.window.showQuickPick([
+    { label: 'Per task', value: 'task' as TimesheetGrouping },
+    { label: 'Per day', description: 'One line per task per day', value: 'day' as TimesheetGrouping },
+    { label: 'Per project', value: 'project' as TimesheetGrouping },
+    { label: 'Every entry', value: 'entry' as TimesheetGrouping },
+  ], { placeHolder: 'Group timesheet lines' });
+  if (!grouping) return;
+
+  const rounding = await vscode.window.showQuickPick([
+    { label: 'No rounding', value: 0 },
+    { label: 'Round up to 6 minutes', value: 6 },
+    { label: 'Round up to 15 minutes', value: 15 },
+    { label: 'Round up to 30 minutes', value: 30 },
+  ], { placeHolder: 'Rounding (applied per line)' });
+  if (!rounding) return;
+
+  const format = await vscode.window.showQuickPick([
+    { label: 'CSV', value: 'csv' as TimesheetFormat },
+    { label: 'JSON', value: 'json' as TimesheetFormat },
+    { label: 'Markdown table', value: 'md' as TimesheetFormat },
+  ], { placeHolder: 'File format' });
+  if (!format) return;
+
+  const root = getWorkspaceRoot();
+  const fileName = `timesheet-${formatDateKey(range.from)}_${formatDateKey(addDays(range.to, -1))}.${format.value}`;
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: root ? vscode.Uri.file(path.join(root, fileName)) : undefined,
+    filters: { [format.label]: [format.value] },
+  });
+  if (!target) return;
+
+  try {
+    const content = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Toggl: Building timesheet...' },
+      async () => {
+        const entries = await loadReportEntries(range.from, range.to);
+        const taskIds = Array.from(new Set(entries.map(e => e.taskId).filter((id): id is string => !!id)));
+        const tasks = await fetchMondayTaskSummaries(taskIds);
+        const rows = buildTimesheetRows(entries, tasks, grouping.value, rounding.value);
+        return formatTimesheet(rows, format.value, range.from, range.to);
+      }
+    );
+    fs.writeFileSync(target.fsPath, content);
+    const action = await vscode.window.showInformationMessage(`Toggl: Timesheet saved to ${path.basename(target.fsPath)}`, 'Open');
+    if (action === 'Open') {
+      await vscode.window.showTextDocument(target);
+    }
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Toggl: Timesheet export failed: ${error.message || error}`);
+  }
+}
+
+// ========== Monday Time Column Sync ==========
+
+const MONDAY_TIME_SYNC_KEY = 'togglTrackAuto.mondayTimeSync';
+
+interface MondayTimeSyncState {
+  // Set once the user has been through the dry-run preview
+  confirmed: boolean;
+  // Stopped entries inside the lookback window, re-read from Toggl on every sync
+  entries: { [entryId: string]: { taskId: string; start: string; seconds: number } };
+  // Entries that aged out of the lookback window, folded into one total per task
+  carried: { [taskId: string]: number };
+  // Last value written per Monday item
+  written: { [taskId: string]: { value: string; at: string } };
+}
+
+interface MondayTimeSyncChange {
+  taskId: string;
+  name: string;
+  // What the column holds now
+  previous: string | null;
+  value: string;
+}
+
+class MondayTimeSync implements vscode.Disposable {
+  private interval: NodeJS.Timeout | null = null;
+  private syncing = false;
+
+  constructor(private readonly globalState: vscode.Memento, private readonly isOwner: () => boolean) {
+    this.schedule();
+  }
+
+  /** (Re)start the background sync; it only ever runs after the first confirmed push, in the timer owner window. */
+  schedule() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    const config = vscode.workspace.getConfiguration('togglTrackAuto');
+    const minutes = config.get<number>('mondayTimeSyncIntervalMinutes') ?? 30;
+    if (config.get<string>('mondayTimeColumn') && minutes > 0) {
+      this.interval = setInterval(() => {
+        if (this.isOwner()) this.sync(false);
+      }, minutes * 60000);
+    }
+  }
+
+  private getState(): MondayTimeSyncState {
+    const saved = this.globalState.get<MondayTimeSyncState>(MONDAY_TIME_SYNC_KEY);
+    return {
+      confirmed: saved?.confirmed ?? false,
+      entries: saved?.entries ?? {},
+      carried: saved?.carried ?? {},
+      written: saved?.written ?? {},
+    };
+  }
+
+  private isMinutes(): boolean {
+    return vscode.workspace.getConfiguration('togglTrackAuto').get<string>('mondayTimeUnit') === 'minutes';
+  }
+
+  private formatValue(seconds: number): string {
+    return this.isMinutes() ? String(Math.round(seconds / 60)) : (seconds / 3600).toFixed(2);
+  }
+
+  /** Name and current column text of each item that still exists, in chunks of the 100 IDs Monday accepts per query. */
+  private async fetchItems(ids: string[], column: string, token: string): Promise<Map<string, { name: string; value: string | null }>> {
+    const items = new Map<string, { name: string; value: string | null }>();
+    for (let i = 0; i < ids.length; i += 100) {
+      const chunk = ids.slice(i, i + 100);
+      const query = `query { items(ids: [${chunk.join(', ')}], limit: 100) { id name column_values(ids: [${JSON.stringify(column)}]) { text } } }`;
+      const response = await axios.post(MONDAY_API_URL, { query }, {
+        headers: { 'Authorization': token, 'Content-Type': 'application/json' },
+      });
+      if (response.data?.errors?.length) {
+        throw new Error(response.data.errors[0].message);
+      }
+      for (const item of response.data?.data?.items || []) {
+        items.set(String(item.id), { name: item.name, value: item.column_values?.[0]?.text || null });
+      }
+    }
+    return items;
+  }
+
+  async sync(interactive: boolean): Promise<void> {
+    const config = vscode.workspace.getConfiguration('togglTrackAuto');
+    const column = config.get<string>('mondayTimeColumn');
+    const token = getMondayToken();
+    if (!column || !isMondayEnabled() || !token) {
+      if (interactive) {
+        const action = await vscode.window.showWarningMessage(
+          'Toggl: Set togglTrackAuto.mondayTimeColumn (and enable Monday.com) to sync tracked time.',
+          'Open Settings'
+        );
+        if (action === 'Open Settings') {
+          vscode.commands.executeCommand('workbench.action.openSettings', 'togglTrackAuto.mondayTime');
+        }
+      }
+      return;
+    }
+    if (this.syncing) return;
+    this.syncing = true;
+
+    try {
+      const state = this.getState();
+      const lookbackDays = config.get<number>('mondayTimeSyncDays') ?? 90;
+      const from = addDays(startOfDay(new Date()), -lookbackDays);
+      const entries = await loadReportEntries(from, addDays(startOfDay(new Date()), 1));
+
+      // Entries inside the window are re-read from Toggl, so deleted or edited ones are picked up;
+      // older ones only count towards their task's total from now on
+      for (const [id, entry] of Object.entries(state.entries)) {
+        if (new Date(entry.start) < from) {
+          state.carried[entry.taskId] = (state.carried[entry.taskId] || 0) + entry.seconds;
+        }
+        delete state.entries[id];
+      }
+      for (const entry of entries) {
+        if (entry.running || !entry.taskId) continue;
+        state.entries[String(entry.id)] = { taskId: entry.taskId, start: entry.start.toISOString(), seconds: entry.seconds };
+      }
+
+      const totals = new Map<string, number>(Object.entries(state.carried));
+      for (const entry of Object.values(state.entries)) {
+        totals.set(entry.taskId, (totals.get(entry.taskId) || 0) + entry.seconds);
+      }
+
+      // The column always gets the whole total recomputed from Toggl, never a difference on top of what it
+      // holds, so running the sync again (or from another machine) writes the same value
+      const pending = Array.from(totals.entries())
+        .map(([taskId, seconds]) => ({ taskId, value: this.formatValue(seconds) }))
+        .filter(({ taskId, value }) => value !== state.written[taskId]?.value);
+
+      if (pending.length === 0) {
+        await this.globalState.update(MONDAY_TIME_SYNC_KEY, state);
+        if (interactive) vscode.window.showInformationMessage('Toggl: Monday time column is already up to date');
+        return;
+      }
+
+      const items = await this.fetchItems(pending.map(c => c.taskId), column, token);
+      let changes: MondayTimeSyncChange[] = [];
+      for (const { taskId, value } of pending) {
+        const item = items.get(taskId);
+        if (!item) {
+          // Deleted, archived or just not returned this time: skip it, its time stays on record
+          log(`Monday item ${taskId} not found, not syncing its time this run`);
+          continue;
+        }
+        if (item.value === value) {
+          state.written[taskId] = { value, at: new Date().toISOString() };
+          continue;
+        }
+        changes.push({ taskId, name: item.name, previous: item.value, value });
+      }
+      if (changes.length === 0) {
+        await this.globalState.update(MONDAY_TIME_SYNC_KEY, state);
+        if (interactive) vscode.window.showInformationMessage('Toggl: Monday time column is already up to date');
+        return;
+      }
+
+      if (!state.confirmed) {
+        // Never push for the first time without the user seeing what would change
+        if (!interactive) return;
+        const picked = await vscode.window.showQuickPick(
+          changes.map(change => ({
+            label: change.name,
+            description: `${change.previous ?? '(empty)'} → ${change.value}`,
+            detail: `#${change.taskId}`,
+            picked: true,
+            change,
+          })),
+          {
+            title: `Dry run: ${changes.length} Monday item(s) would be updated in column "${column}"`,
+            placeHolder: 'Uncheck items to skip, then press Enter to push',
+            canPickMany: true,
+            ignoreFocusOut: true,
+          }
+        );
+        if (!picked || picked.length === 0) {
+          await this.globalState.update(MONDAY_TIME_SYNC_KEY, state);
+          return;
+        }
+        changes = picked.map(p => p.change);
+        state.confirmed = true;
+      }
+
+      const boardId = getMondayBoardId();
+      let failed = 0;
+      for (const change of changes) {
+        try {
+          const query = `mutation { change_column_value(board_id: ${boardId}, item_id: ${change.taskId}, column_id: ${JSON.stringify(column)}, value: ${JSON.stringify(JSON.stringify(change.value))}) { id } }`;
+          const response = await axios.post(MONDAY_API_URL, { query }, {
+            headers: { 'Authorization': token, 'Content-Type': 'application/json' },
+          });
+          if (response.data?.errors?.length) {
+            throw new Error(response.data.errors[0].message);
+          }
+          state.written[change.taskId] = { value: change.value, at: new Date().toISOString() };
+          log(`wrote ${change.value} to Monday item ${change.taskId} (was ${change.previous ?? 'empty'})`);
+        } catch (error: any) {
+          failed++;
+          logError(`Failed to update Monday item ${change.taskId}:`, error);
+        }
+      }
+      await this.globalState.update(MONDAY_TIME_SYNC_KEY, state);
+
+      if (failed > 0) {
+        showMessageWithLog('warning', `Toggl: Updated ${changes.length - failed} Monday item(s), ${failed} failed (see output log)`);
+      } else if (interactive) {
+        vscode.window.showInformationMessage(`Toggl: Updated ${changes.length} Monday item(s)`);
+      }
+    } catch (error: any) {
+      console.error('Monday time sync failed:', error);
+      if (interactive) vscode.window.showErrorMessage(`Toggl: Monday time sync failed: ${error.message || error}`);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  dispose() {
+    if (this.interval) clearInterval(this.interval);
+  }
+}
+
+// ========== Toggl Timeline View ==========
+
+class TimelineItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly entry?: ReportEntry,
+    public readonly children?: TimelineItem[]
+  ) {
+    super(label, collapsibleState);
+  }
+}
+
+class TogglTimelineProvider implements vscode.TreeDataProvider<TimelineItem>, vscode.Disposable {
+  public static readonly viewType = 'togglTimeline';
+  private _onDidChangeTreeData = new vscode.EventEmitter<TimelineItem | undefined | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private refreshTimer: NodeJS.Timeout;
+
+  constructor(private readonly journal: TogglOperationJournal, private readonly tracker: TogglTracker) {
+    // Keeps the running entry's duration current while the view is open
+    this.refreshTimer = setInterval(() => this.refresh(), 60000);
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: TimelineItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: TimelineItem): Promise<TimelineItem[]> {
+    if (element) return element.children || [];
+
+    const today = startOfDay(new Date());
+    let entries: ReportEntry[];
+    try {
+      entries = await loadReportEntries(addDays(today, -1), addDays(today, 1));
+    } catch (error: any) {
+      const item = new TimelineItem(`Failed to load entries: ${error.message || error}`, vscode.TreeItemCollapsibleState.None);
+      item.iconPath = new vscode.ThemeIcon('warning');
+      return [item];
+    }
+    return [this.dayItem('Today', today, entries), this.dayItem('Yesterday', addDays(today, -1), entries)];
+  }
+
+  private dayItem(label: string, day: Date, entries: ReportEntry[]): TimelineItem {
+    const dayEnd = addDays(day, 1);
+    const dayEntries = entries.filter(e => e.start >= day && e.start < dayEnd).reverse();
+    const item = new TimelineItem(
+      label,
+      vscode.TreeItemCollapsibleState.Expanded,
+      undefined,
+      dayEntries.map(e => this.entryItem(e))
+    );
+    item.description = `${formatDuration(dayEntries.reduce((sum, e) => sum + e.seconds, 0))} · ${day.toLocaleDateString()}`;
+    item.iconPath = new vscode.ThemeIcon('calendar');
+    return item;
+  }
+
+  private entryItem(entry: ReportEntry): TimelineItem {
+    const time = (d: Date) => d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const item = new TimelineItem(entry.description || '(no description)', vscode.TreeItemCollapsibleState.None, entry);
+    item.description = [
+      `${time(entry.start)}–${entry.running ? 'now' : time(entry.end)}`,
+      formatDuration(entry.seconds),
+      entry.projectName,
+    ].filter(Boolean).join(' · ');
+    item.tooltip = new vscode.MarkdownString([
+      `**${entry.description || '(no description)'}**`,
+      '',
+      `${entry.start.toLocaleString()} – ${entry.running ? 'running' : entry.end.toLocaleString()}`,
+      `Project: ${entry.projectName || 'none'}`,
+      `Tags: ${entry.tags.join(', ') || 'none'}`,
+      `Billable: ${entry.billable ? 'yes' : 'no'}`,
+    ].join('\n\n'));
+    item.iconPath = entry.running
+      ? new vscode.ThemeIcon('debug-start', new vscode.ThemeColor('charts.green'))
+      : new vscode.ThemeIcon('circle-outline');
+    item.contextValue = entry.running ? 'togglEntryRunning' : 'togglEntry';
+    return item;
+  }
+
+  async continueEntry(item?: TimelineItem) {
+    const entry = item?.entry;
+    if (!entry || entry.running) return;
+    try {
+      await this.tracker.runQueued(() => this.tracker.continueEntryManually(entry.id, entry.description));
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Toggl: Failed to continue entry - ${error?.response?.data || error?.message || error}`);
+    }
+    this.refresh();
+  }
+
+  async splitEntry(item?: TimelineItem) {
+    const entry = item?.entry;
+    if (!entry) return;
+
+    const end = entry.running ? new Date() : entry.end;
+    const atClock = (value: string): Date | null => {
+      const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+      if (!match) return null;
+      const at = new Date(entry.start);
+      at.setHours(Number(match[1]), Number(match[2]), 0, 0);
+      return at;
+    };
+    const input = await vscode.window.showInputBox({
+      prompt: `Split "${entry.description}" at (HH:MM, between ${entry.start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} and ${end.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})`,
+      validateInput: value => {
+        const at = atClock(value);
+        if (!at) return 'Use HH:MM';
+        return at > entry.start && at < end ? null : 'The split time must fall inside the entry';
+      },
+    });
+    const splitAt = input ? atClock(input) : null;
+    if (!splitAt) return;
+
+    const secondDescription = await vscode.window.showInputBox({
+      prompt: 'Description for the part after the split',
+      value: entry.description,
+    });
+    if (secondDescription === undefined) return;
+
+    const workspaceId = vscode.workspace.getConfiguration('togglTrackAuto').get<number>('workspaceId');
+    const payload: any = {
+      description: secondDescription,
+      workspace_id: workspaceId,
+      start: splitAt.toISOString(),
+      duration: entry.running ? -1 : Math.round((end.getTime() - splitAt.getTime()) / 1000),
+      created_with: 'toggl-track-vscode',
+      billable: entry.billable,
+    };
+    if (!entry.running) payload.stop = end.toISOString();
+    if (entry.projectId) payload.project_id = entry.projectId;
+    if (entry.tags.length > 0) payload.tags = entry.tags;
+
+    try {
+      await this.tracker.runQueued(async () => {
+        await this.journal.update(entry.id, {
+          stop: splitAt.toISOString(),
+          duration: Math.round((splitAt.getTime() - entry.start.getTime()) / 1000),
+        });
+        const secondId = await this.journal.start(payload);
+        recordEntryTask(secondId, entry.taskId);
+        if (entry.running) {
+          // The second half is what's running now
+          this.tracker.replaceRunningEntry(entry.id, secondId, secondDescription);
+        }
+      });
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Toggl: Failed to split entry - ${error?.response?.data || error?.message || error}`);
+    }
+    this.refresh();
+  }
+
+  async reassignEntry(item?: TimelineItem) {
+    const entry = item?.entry;
+    if (!entry) return;
+
+    const token = getMondayToken();
+    if (!isMondayEnabled() || !token) {
+      vscode.window.showWarningMessage('Monday.com integration is disabled. Enable it via "Toggl: Setup Monday.com Integration".');
+      return;
+    }
+    const tasks = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Fetching Monday.com tasks...' },
+      () => fetchUserTasks(token, getMondayBoardId())
+    );
+    const picked = await vscode.window.showQuickPick(
+      (tasks as any[]).map(task => ({ label: task.name, description: `#${task.id}  ·  ${task.group || ''}`, task })),
+      { placeHolder: `Reassign "${entry.description}" to…`, matchOnDescription: true }
+    );
+    if (!picked) return;
+
+    const description = describeMondayTask(picked.task);
+    try {
+      await this.tracker.runQueued(async () => {
+        await this.journal.update(entry.id, { description });
+        recordEntryTask(entry.id, picked.task.id);
+        this.tracker.replaceRunningEntry(entry.id, entry.id, description);
+      });
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Toggl: Failed to reassign entry - ${error?.response?.data || error?.message || error}`);
+    }
+    this.refresh();
+  }
+
+  async changeProject(item?: TimelineItem) {
+    const entry = item?.entry;
+    if (!entry) return;
+
+    const projects = await fetchTogglProjects();
+    const picked = await vscode.window.showQuickPick(
+      [{ label: '(no project)', id: null as number | null }, ...Array.from(projects.entries()).map(([id, name]) => ({ label: name, id: id as number | null }))],
+      { placeHolder: `Project for "${entry.description}"` }
+    );
+    if (!picked) return;
+
+    try {
+      await this.tracker.runQueued(() => this.journal.update(entry.id, { project_id: picked.id }));
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Toggl: Failed to change project - ${error?.response?.data || error?.message || error}`);
+    }
+    this.refresh();
+  }
+
+  async deleteEntry(item?: TimelineItem) {
+    const entry = item?.entry;
+    if (!entry) return;
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete "${entry.description}" (${formatDuration(entry.seconds)})?`,
+      { modal: true },
+      'Delete'
+    );
+    if (confirm !== 'Delete') return;
+
+    try {
+      await this.tracker.runQueued(async () => {
+        await this.journal.remove(entry.id);
+        if (entry.running) this.tracker.replaceRunningEntry(entry.id, null, '');
+      });
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Toggl: Failed to delete entry - ${error?.response?.data || error?.message || error}`);
+    }
+    this.refresh();
+  }
+
+  dispose() {
+    clearInterval(this.refreshTimer);
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+// ========== Reconstruct Time From Git ==========
+
+interface GitActivityEvent {
+  at: number;
+  root: string;
+  branch: string;
+  kind: 'checkout' | 'commit';
+}
+
+interface ReconstructedBlock {
+  start: Date;
+  end: Date;
+  root: string;
+  branch: string;
+}
+
+// Silences longer than this are treated as time away from the keyboard
+const RECONSTRUCT_MAX_GAP_MS = 90 * 60 * 1000;
+// Work assumed to precede a commit that has no activity right before it
+const RECONSTRUCT_COMMIT_LEAD_MS = 30 * 60 * 1000;
+const RECONSTRUCT_MIN_BLOCK_MS = 5 * 60 * 1000;
+
+async function getWorkspaceRepositoryRoots(): Promise<string[]> {
+  const api = await getGitApi();
+  const roots: string[] = (api?.repositories || []).map((r: any) => r.rootUri.fsPath);
+  if (roots.length > 0) return roots;
+  return (vscode.workspace.workspaceFolders || [])
+    .map(folder => folder.uri.fsPath)
+    .filter(dir => fs.existsSync(path.join(dir, '.git')));
+}
+
+async function readGitActivity(root: string, from: Date, to: Date): Promise<GitActivityEvent[]> {
+  const isDetached = (ref: string) => /^[0-9a-f]{7,64}$/.test(ref);
+
+  // Every checkout in the reflog, so we also know what was checked out when the day began
+  const checkouts: { at: number; branch: string }[] = [];
+  try {
+    const { stdout } = await execAsync('git reflog show --date=unix --format=%gd%x09%gs HEAD', { cwd: root, maxBuffer: 10 * 1024 * 1024 });
+    for (const line of stdout.split('\n')) {
+      const match = line.match(/^HEAD@\{(\d+)\}\tcheckout: moving from .+ to (.+)$/);
+      if (match) checkouts.push({ at: Number(match[1]) * 1000, branch: match[2].trim() });
+    }
+  } catch (error) {
+    console.error(`Failed to read reflog in ${root}:`, error);
+  }
+  checkouts.sort((a, b) => a.at - b.at);
+
+  const events: GitActivityEvent[] = checkouts
+    .filter(c => c.at >= from.getTime() && c.at < to.getTime() && !isDetached(c.branch))
+    .map(c => ({ at: c.at, root, branch: c.branch, kind: 'checkout' as const }));
+
+  // Commits by this user, including ones made on another machine
+  try {
+    const { stdout: email } = await execAsync('git config user.email', { cwd: root });
+    // execFile, not a shell: nothing in these arguments gets expanded
+    const { stdout } = await execFileAsync(
+      'git',
+      ['log', '--all', `--since=${Math.floor(from.getTime() / 1000)}`, `--until=${Math.floor(to.getTime() / 1000)}`, `--author=${email.trim()}`, '--format=%ct%x09%H'],
+      { cwd: root, maxBuffer: 10 * 1024 * 1024 }
+    );
+    for (const line of stdout.split('\n')) {
+      const [time, hash] = line.split('\t');
+      if (!time || !hash) continue;
+      const at = Number(time) * 1000;
+
+      // The branch checked out at commit time, else the branch the commit lives on
+      let branch = checkouts.filter(c => c.at <= at).pop()?.branch || '';
+      if (!branch || isDetached(branch)) {
+        const name = await gitOutput(root, 'name-rev', '--name-only', '--refs=refs/heads/*', hash);
+        branch = name ? name.replace(/[~^].*$/, '') : '';
+      }
+      if (branch && branch !== 'undefined') events.push({ at, root, branch, kind: 'commit' });
+    }
+  } catch (error) {
+    console.error(`Failed to read commits in ${root}:`, error);
+  }
+
+  return events;
+}
+
+/**
+ * Turn checkout and commit events into blocks of work: time up to a commit
+ * belongs to the commit's branch, time up to a checkout to the branch being
+ * left. Existing Toggl entries are cut out so nothing is tracked twice.
+ */
+function buildReconstructedTimeline(events: GitActivityEvent[], from: Date, to: Date, existing: ReportEntry[]): ReconstructedBlock[] {
+  const sorted = [...events].sort((a, b) => a.at - b.at);
+  const blocks: ReconstructedBlock[] = [];
+  const add = (start: number, end: number, owner: GitActivityEvent) => {
+    start = Math.max(start, from.getTime());
+    end = Math.min(end, to.getTime());
+    if (end <= start) return;
+    const last = blocks[blocks.length - 1];
+    if (last && last.root === owner.root && last.branch === owner.branch && last.end.getTime() >= start) {
+      last.end = new Date(Math.max(last.end.getTime(), end));
+      return;
+    }
+    blocks.push({ start: new Date(start), end: new Date(end), root: owner.root, branch: owner.branch });
+  };
+
+  sorted.forEach((event, i) => {
+    const previous = sorted[i - 1];
+    const next = sorted[i + 1];
+    if (event.kind === 'commit' && (!previous || event.at - previous.at > RECONSTRUCT_MAX_GAP_MS)) {
+      add(event.at - RECONSTRUCT_COMMIT_LEAD_MS, event.at, event);
+    }
+    if (next && next.at - event.at <= RECONSTRUCT_MAX_GAP_MS) {
+      add(event.at, next.at, next.kind === 'commit' ? next : event);
+    }
+  });
+
+  // Cut out time that is already in Toggl
+  let remaining = blocks;
+  for (const entry of existing) {
+    const cut: ReconstructedBlock[] = [];
+    for (const block of remaining) {
+      if (entry.end <= block.start || entry.start >= block.end) {
+        cut.push(block);
+        continue;
+      }
+      if (entry.start > block.start) cut.push({ ...block, end: entry.start });
+      if (entry.end < block.end) cut.push({ ...block, start: entry.end });
+    }
+    remaining = cut;
+  }
+  return remaining.filter(b => b.end.getTime() - b.start.getTime() >= RECONSTRUCT_MIN_BLOCK_MS);
+}
+
+async function pickReconstructDay(): Promise<Date | null> {
+  const today = startOfDay(new Date());
+  const items: (vscode.QuickPickItem & { day: Date | null })[] = [];
+  for (let i = 0; i < 7; i++) {
+    const day = addDays(today, -i);
+    items.push({
+      label: i === 0 ? 'Today' : i === 1 ? 'Yesterday' : day.toLocaleDateString(undefined, { weekday: 'long' }),
+      description: formatDateKey(day),
+      day,
+    });
+  }
+  items.push({ label: 'Other date...', day: null });
+
+  const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Which day do you want to reconstruct?' });
+  if (!picked) return null;
+  if (picked.day) return picked.day;
+
+  const input = await vscode.window.showInputBox({
+    prompt: 'Day to reconstruct',
+    placeHolder: 'YYYY-MM-DD',
+    validateInput: value => parseDateKey(value.trim()) ? null : 'Use YYYY-MM-DD',
+  });
+  return input ? parseDateKey(input.trim()) : null;
+}
+
+// ========== Duration Policies ==========
+
+interface DurationPolicy {
+  // Omit to make this the default policy
+  projectId?: number;
+  rounding?: 'up' | 'nearest' | 'down' | 'none';
+  incrementMinutes?: number;
+  minimumMinutes?: number;
+  // Entries longer than this that run past midnight are split at midnight (0 = never)
+  maxEntryHours?: number;
+}
+
+interface EntryNormalization {
+  entry: ReportEntry;
+  // The entry's new range first, then any parts split off at midnight
+  parts: { start: Date; end: Date }[];
+  // Rounding up ran into the following entry: a stopped one starts later instead,
+  // a running one (or one too short to give way) is left overlapping
+  shiftNext?: { entry: ReportEntry; start: Date };
+  overlap?: { entry: ReportEntry; seconds: number };
+}
+
+function findDurationPolicy(projectId: number | null): DurationPolicy | null {
+  const policies = vscode.workspace.getConfiguration('togglTrackAuto').get<DurationPolicy[]>('durationPolicies') || [];
+  return policies.find(p => p.projectId !== undefined && p.projectId === projectId)
+    || policies.find(p => p.projectId === undefined)
+    || null;
+}
+
+function isBreakEntry(description: string): boolean {
+  return BREAK_TYPES.some(type => type.replace(/^[^\s]+\s/, '') === description);
+}
+
+/**
+ * Apply the entry's project policy. Returns null when nothing changes;
+ * rounding that would leave nothing (rounding down a short entry) is skipped.
+ * The full round-up is always kept; see `shiftNext` and `overlap` for what
+ * happens to the `next` entry it runs into.
+ */
+function normalizeEntry(entry: ReportEntry, next: ReportEntry | null): EntryNormalization | null {
+  if (entry.running || isBreakEntry(entry.description)) return null;
+  const policy = findDurationPolicy(entry.projectId);
+  if (!policy) return null;
+
+  // Split at every midnight the entry runs past
+  const parts: { start: Date; end: Date }[] = [];
+  const maxMs = (policy.maxEntryHours || 0) * 3600000;
+  if (maxMs > 0 && entry.end.getTime() - entry.start.getTime() > maxMs) {
+    let start = entry.start;
+    for (let midnight = addDays(startOfDay(entry.start), 1); midnight < entry.end; midnight = addDays(midnight, 1)) {
+      parts.push({ start, end: midnight });
+      start = midnight;
+    }
+    parts.push({ start, end: entry.end });
+  } else {
+    parts.push({ start: entry.start, end: entry.end });
+  }
+
+  // Rounding and the minimum apply to the last part only, so splits stay on midnight
+  const last = parts[parts.length - 1];
+  const seconds = Math.round((last.end.getTime() - last.start.getTime()) / 1000);
+  const increment = (policy.incrementMinutes || 0) * 60;
+  let rounded = seconds;
+  if (increment > 0 && policy.rounding && policy.rounding !== 'none') {
+    const round = policy.rounding === 'up' ? Math.ceil : policy.rounding === 'down' ? Math.floor : Math.round;
+    rounded = round(seconds / increment) * increment;
+  }
+  rounded = Math.max(rounded, (policy.minimumMinutes || 0) * 60);
+  if (rounded > 0) {
+    last.end = new Date(last.start.getTime() + rounded * 1000);
+  }
+
+  if (parts.length === 1 && Math.abs(last.end.getTime() - entry.end.getTime()) < 1000) return null;
+  const change: EntryNormalization = { entry, parts };
+  // Only overlap the rounding created; one that was already there is left alone
+  if (next && last.end > next.start && entry.end <= next.start) {
+    if (!next.running && last.end < next.end) {
+      change.shiftNext = { entry: next, start: last.end };
+    } else {
+      change.overlap = { entry: next, seconds: Math.round((last.end.getTime() - next.start.getTime()) / 1000) };
+    }
+  }
+  return change;
+}
+
+/** The entry after `entry` in start-sorted `entries`, if any. */
+function nextEntry(entries: ReportEntry[], entry: ReportEntry): ReportEntry | null {
+  const index = entries.indexOf(entry);
+  return index >= 0 && index + 1 < entries.length ? entries[index + 1] : null;
+}
+
+/** One line on what the change does to the following entry, if anything. */
+function describeNextEntryEffect(change: EntryNormalization): string | null {
+  const time = (d: Date) => d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (change.shiftNext) {
+    return `"${change.shiftNext.entry.description}" then starts at ${time(change.shiftNext.start)} instead of ${time(change.shiftNext.entry.start)}`;
+  }
+  if (change.overlap) {
+    return `overlaps "${change.overlap.entry.description}" by ${formatDuration(change.overlap.seconds)}`;
+  }
+  return null;
+}
+
+function describeNormalization(change: EntryNormalization): string[] {
+  const time = (d: Date) => d.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  const line = (start: Date, end: Date) =>
+    `${time(start)} – ${time(end)}  (${formatDuration((end.getTime() - start.getTime()) / 1000)})  ${change.entry.description}`;
+  const effect = describeNextEntryEffect(change);
+  return [
+    `- ${line(change.entry.start, change.entry.end)}`,
+    ...change.parts.map(part => `+ ${line(part.start, part.end)}`),
+    ...(effect ? [`! ${effect}`] : []),
+  ];
+}
+
+class TogglTracker {
+  private statusBarItem: vscode.StatusBarItem;
+  private newBranchStatusBarItem: vscode.StatusBarItem;
+  private breakStatusBarItem: vscode.StatusBarItem;
+  private syncStatusBarItem: vscode.StatusBarItem;
+  readonly journal: TogglOperationJournal;
+  private ownership: TimerOwnershipCoordinator;
+  private globalState: vscode.Memento;
+  private userRulesPath: string;
+  // Why the running entry got its project/tags/billable flag (shown in showStatus)
+  private entryExplanation: string[] = [];
+  private currentBranch: string = '';
+  private currentEntryId: number | null = null;
+  private lastActivity: number = Date.now();
+  private lastResumeAttempt: number = 0;
+  // When the running entry was last compared with Toggl's
+  private lastExternalSync: number = 0;
+  // Serializes branch checks coming from events, polls and prompts
+  private branchCheck: Promise<void> = Promise.resolve();
+  // A checkout that hasn't lasted branchDwellSeconds yet
+  private pendingSwitch: { branch: string; since: number; timer: NodeJS.Timeout } | null = null;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private idleCheckInterval: NodeJS.Timeout | null = null;
+  private externalSyncInterval: NodeJS.Timeout | null = null;
+  private scheduleInterval: NodeJS.Timeout | null = null;
+  // Working-hours state: the last schedule check and the user's off-hours decisions
+  private wasInWorkingHours: boolean = false;
+  private offHoursApproved: boolean = false;
+  private offHoursDeclined: boolean = false;
+  private offHoursPromptOpen: boolean = false;
+  private lastDailyTargetCheck: number = 0;
+  // Set when the timer was changed in the Toggl web/mobile app; pauses auto switching
+  private manualOverride: { entryId: number | null; description: string } | null = null;
+  private isTracking: boolean = false;
+  // Only a stop by the org allow-list is undone when the repository changes, never "Stop Tracking"
+  private stoppedByOrgFilter: boolean = false;
+  private taskCache: Map<string, MondayTaskSummary> = new Map();
+  // Track last stopped entry for resume feature
+  private lastStoppedDescription: string = '';
+  private lastStoppedTime: number = 0;
+  private lastStoppedEntryId: number | null = null;
+  private currentDescription: string = '';
+  // Break tracking
+  private isOnBreak: boolean = false;
+  private preBreakEntryId: number | null = null;
+  private preBreakDescription: string = '';
+  private preBreakBranch: string = '';
+  // Idle time waiting for the user to decide what to do with it
+  private idlePeriod: IdlePeriod | null = null;
+  // Entry left running by a dead session while the user decides whether to truncate it
+  private orphanQuestionEntryId: number | null = null;
+  // Org filtering, cached per repository root
+  private orgAllowedCache: Map<string, boolean> = new Map();
+  private listenersRegistered: boolean = false;
+  private version: string;
+  // Monday sidebar controller (set externally)
+  public mondaySidebarController: MondaySidebarController | null = null;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      100
+    );
+    this.statusBarItem.command = 'toggl-track-auto.status';
+    
+    // Show version in tooltip
+    const extension = vscode.extensions.getExtension('pivot.toggl-track-auto');
+    this.version = extension?.packageJSON?.version || 'unknown';
+    this.statusBarItem.tooltip = `Toggl Track Auto v${this.version}\nClick for status`;
+    
+    this.statusBarItem.show();
+    this.updateStatusBar('$(clock) Toggl: Initializing...');
+    
+    // New branch button (between indicator and break) - only when Monday enabled
+    this.newBranchStatusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      99.5
+    );
+    this.newBranchStatusBarItem.command = 'toggl-track-auto.createBranchFromTask';
+    this.newBranchStatusBarItem.text = '$(add)';
+    this.newBranchStatusBarItem.tooltip = 'Create a new branch from a Monday.com task';
+    if (isMondayEnabled()) {
+      this.newBranchStatusBarItem.show();
+    }
+    
+    // Break button
+    this.breakStatusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      99
+    );
+    this.breakStatusBarItem.command = 'toggl-track-auto.toggleBreak';
+    this.updateBreakButton();
+    this.breakStatusBarItem.show();
+
+    // Pending sync indicator - only visible while operations are queued
+    this.syncStatusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      98
+    );
+    this.syncStatusBarItem.command = 'toggl-track-auto.syncNow';
+
+    this.globalState = context.globalState;
+    this.userRulesPath = path.join(context.globalStorageUri.fsPath, 'toggl-rules.json');
+    this.journal = new TogglOperationJournal(context.globalStorageUri.fsPath, () => this.ownership.isOwner());
+    this.ownership = new TimerOwnershipCoordinator(context.globalStorageUri.fsPath);
+    this.ownership.onDidChangeOwnership(owner => this.onOwnershipChanged(owner));
+    this.ownership.onDidChangeOwner(() => this.updateFollowerStatus());
+    this.journal.onDidChangePending(() => this.updateSyncButton());
+    this.journal.onDidResolveEntry(({ localId, entryId }) => {
+      // Swap local placeholders for the real IDs once the start is replayed
+      moveRecordedEntryTask(localId, entryId);
+      if (this.currentEntryId === localId) this.currentEntryId = entryId;
+      if (this.lastStoppedEntryId === localId) this.lastStoppedEntryId = entryId;
+      if (this.preBreakEntryId === localId) this.preBreakEntryId = entryId;
+      if (this.idlePeriod?.entryId === localId) this.idlePeriod.entryId = entryId;
+      if (this.currentEntryId === entryId) this.recordRunningEntry();
+    });
+    this.journal.onDidCreateEntry(entryId => this.rememberCreatedEntry(entryId));
+    this.updateSyncButton();
+  }
+
+  private rememberCreatedEntry(entryId: number) {
+    const now = Date.now();
+    const created = this.globalState.get<{ [entryId: string]: number }>(CREATED_ENTRIES_KEY) || {};
+    const kept: { [entryId: string]: number } = { [entryId]: now };
+    for (const [id, at] of Object.entries(created)) {
+      if (now - at < CREATED_ENTRIES_MAX_AGE_MS) kept[id] = at;
+    }
+    this.globalState.update(CREATED_ENTRIES_KEY, kept);
+  }
+
+  private isCreatedEntry(entryId: number): boolean {
+    return String(entryId) in (this.globalState.get<{ [entryId: string]: number }>(CREATED_ENTRIES_KEY) || {});
+  }
+
+  private updateSyncButton() {
+    const pending = this.journal.pendingCount;
+    if (pending > 0) {
+      this.syncStatusBarItem.text = `$(sync) ${pending} pending`;
+      this.syncStatusBarItem.tooltip = `${pending} Toggl operation(s) waiting to sync. Click to retry now.`;
+      this.syncStatusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+      this.syncStatusBarItem.show();
+    } else {
+      this.syncStatusBarItem.hide();
+    }
+  }
+
+  isTimerOwner(): boolean {
+    return this.ownership.isOwner();
+  }
+
+  async syncNow() {
+    if (this.journal.pendingCount === 0) {
+      vscode.window.showInformationMessage('Toggl: Nothing to sync');
+      return;
+    }
+    await this.journal.flush(true);
+    const pending = this.journal.pendingCount;
+    if (pending > 0) {
+      vscode.window.showWarningMessage(`Toggl: Still offline, ${pending} operation(s) pending`);
+    } else {
+      vscode.window.showInformationMessage('Toggl: All pending operations synced');
+    }
+  }
+  
+  private updateBreakButton() {
+    if (this.isOnBreak) {
+      this.breakStatusBarItem.text = '$(debug-stop) End Break';
+      this.breakStatusBarItem.tooltip = 'Click to end break and resume work';
+      this.breakStatusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+    } else {
+      this.breakStatusBarItem.text = '$(coffee) Break';
+      this.breakStatusBarItem.tooltip = 'Click to start a break';
+      this.breakStatusBarItem.backgroundColor = undefined;
+    }
+  }
+
+  private getConfig() {
+    return vscode.workspace.getConfiguration('togglTrackAuto');
+  }
+
+  private updateStatusBar(text: string) {
+    this.statusBarItem.text = text;
+  }
+
+  /**
+   * Extract the org/user and repo name from the git remote URL of the current workspace.
+   */
+  private async getGitRemoteInfo(root: string | null = getWorkspaceRoot()): Promise<{ org: string; repo: string } | null> {
+    if (!root) {
+      return null;
+    }
+
+    try {
+      const { stdout } = await execAsync('git remote get-url origin', {
+        cwd: root,
+      });
+      return parseGitRemote(stdout);
+    } catch {
+      return null;
+    }
+  }
+
+  private async getGitRemoteOrg(): Promise<string | null> {
+    const info = await this.getGitRemoteInfo();
+    return info?.org || null;
+  }
+
+  /**
+   * Check if the current repo belongs to one of the allowed GitHub organizations.
+   */
+  async checkOrgAllowed(): Promise<boolean> {
+    const config = this.getConfig();
+    const allowedOrgs = config.get<string[]>('allowedOrgs') || [];
+
+    // Empty list = no filtering, allow all
+    if (allowedOrgs.length === 0) {
+      return true;
+    }
+
+    // Cache per repository root
+    const root = getWorkspaceRoot() || '';
+    if (root && this.orgAllowedCache.has(root)) {
+      return this.orgAllowedCache.get(root)!;
+    }
+
+    const org = await this.getGitRemoteOrg();
+    const allowed = !!org && allowedOrgs.some(
+      (allowedOrg) => allowedOrg.toLowerCase() === org
+    );
+
+    if (root) this.orgAllowedCache.set(root, allowed);
+    return allowed;
+  }
+
+  private setVisible(visible: boolean) {
+    if (visible) {
+      this.statusBarItem.show();
+      this.newBranchStatusBarItem.show();
+      this.breakStatusBarItem.show();
+    } else {
+      this.statusBarItem.hide();
+      this.newBranchStatusBarItem.hide();
+      this.breakStatusBarItem.hide();
+    }
+    vscode.commands.executeCommand('setContext', 'togglMondayTask.visible', visible);
+  }
+
+  /**
+   * Called when the active repository changes (editor focus, SCM selection or
+   * workspace folders). Re-applies the org allow-list for the new repo and
+   * restarts the timer on its branch, unless the user stopped tracking.
+   */
+  async onRepositoryChanged() {
+    const root = getWorkspaceRoot();
+    this.statusBarItem.tooltip = `Toggl Track Auto v${this.version}\nRepository: ${root ? path.basename(root) : 'none'}\nClick for status`;
+    if (this.isOnBreak) return;
+
+    const allowed = await this.checkOrgAllowed();
+    if (!allowed) {
+      log(`Repository ${root} is not in an allowed org, stopping`);
+      if (this.isTracking) {
+        await this.stop();
+        this.stoppedByOrgFilter = true;
+      }
+      this.setVisible(false);
+      return;
+    }
+
+    this.setVisible(true);
+    if (!this.isTracking) {
+      if (this.stoppedByOrgFilter) await this.start();
+      return;
+    }
+    // Same branch name in another repo is still a different task; the
+    // BranchWatcher event that follows restarts the timer
+    this.currentBranch = '';
+  }
+
+  async onBranchChanged() {
+    await this.checkBranch();
+  }
+
+  private syncExternalChanges(): Promise<void> {
+    // Same queue as branch checks so our own start/stop is never mistaken for an external one
+    this.branchCheck = this.branchCheck
+      .then(() => this.syncExternalChangesNow())
+      .catch(error => console.error('Toggl: external sync failed:', error));
+    return this.branchCheck;
+  }
+
+  /**
+   * Compare what we think is running with `/me/time_entries/current`. Any
+   * difference means the timer was changed in the Toggl web or mobile app:
+   * adopt it and pause automatic switching until the user resumes auto mode.
+   */
+  private async syncExternalChangesNow() {
+    if (!this.isTracking || this.isOnBreak || this.idlePeriod || this.orphanQuestionEntryId) return;
+    if (!this.ownership.isOwner() || this.journal.pendingCount > 0) return;
+    if (this.currentEntryId !== null && this.currentEntryId < 0) return;
+
+    const apiToken = getTogglToken();
+    if (!apiToken) return;
+
+    let server: any;
+    try {
+      const response = await axios.get(`${TOGGL_API_URL}/me/time_entries/current`, {
+        auth: { username: apiToken, password: 'api_token' },
+      });
+      server = response.data;
+    } catch {
+      return; // Can't tell while offline
+    }
+    this.lastExternalSync = Date.now();
+
+    const serverId: number | null = server?.id ?? null;
+    const serverDescription: string = server?.description || '';
+
+    if (this.manualOverride) {
+      // Keep following whatever the user does in the Toggl app
+      this.currentEntryId = serverId;
+      this.currentDescription = serverDescription;
+      this.manualOverride = { entryId: serverId, description: serverDescription };
+      this.updateManualOverrideStatus();
+      return;
+    }
+
+    if (serverId === this.currentEntryId && (serverId === null || serverDescription === this.currentDescription)) {
+      return;
+    }
+
+    let change: string;
+    if (!serverId) {
+      change = `"${this.currentDescription}" was stopped`;
+    } else if (!this.currentEntryId) {
+      change = `"${serverDescription}" was started`;
+    } else if (serverId !== this.currentEntryId) {
+      change = `the timer was switched to "${serverDescription}"`;
+    } else {
+      change = `the entry was renamed to "${serverDescription}"`;
+    }
+    log(`external change detected - ${change}`);
+
+    this.enterManualOverride(serverId, serverDescription);
+
+    vscode.window.showInformationMessage(
+      `Toggl: ${change} outside VS Code. Automatic switching is paused.`,
+      'Resume Automatic Tracking'
+    ).then(action => {
+      if (action === 'Resume Automatic Tracking') this.resumeAutoTracking();
+    });
+  }
+
+  /**
+   * Reconcile when the user comes back (focus or activity after a pause): the
+   * poll is skipped while nobody is here, which is when the Toggl app gets used.
+   */
+  private syncExternalChangesOnReturn() {
+    if (Date.now() - this.lastExternalSync > 30000) {
+      this.syncExternalChanges();
+    }
+  }
+
+  private enterManualOverride(entryId: number | null, description: string) {
+    this.currentEntryId = entryId;
+    this.currentDescription = description;
+    this.manualOverride = { entryId, description };
+    this.updateManualOverrideStatus();
+    this.recordRunningEntry();
+  }
+
+  /**
+   * Run an older entry again (Timeline "Continue"). Picking an entry by hand
+   * pauses automatic switching, just like changing it in the Toggl app.
+   */
+  async continueEntryManually(entryId: number, description: string) {
+    if (!this.ownership.isOwner()) {
+      // The owning window notices through its external-change check
+      await this.journal.continueEntry(entryId);
+      return;
+    }
+    await this.stopCurrentEntry();
+    const id = await this.journal.continueEntry(entryId);
+    this.enterManualOverride(id, description);
+  }
+
+  /**
+   * Run an edit from elsewhere in the UI in the same queue as branch checks and
+   * external sync, so neither sees it half-done. Failures reach the caller.
+   */
+  runQueued(operation: () => Promise<void>): Promise<void> {
+    const run = this.branchCheck.then(operation);
+    this.branchCheck = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /** Keep following the running entry after it was split, renamed or deleted elsewhere in the UI. */
+  replaceRunningEntry(oldId: number, newId: number | null, description: string) {
+    if (this.currentEntryId !== oldId) return;
+    this.currentEntryId = newId;
+    this.currentDescription = description;
+    if (this.manualOverride) {
+      this.manualOverride = { entryId: newId, description };
+      this.updateManualOverrideStatus();
+    } else if (newId) {
+      this.updateStatusBar(`$(clock) Toggl: ${description.substring(0, 30)}...`);
+    }
+    this.recordRunningEntry();
+  }
+
+  private updateManualOverrideStatus() {
+    const override = this.manualOverride;
+    if (!override) {
+      this.statusBarItem.command = 'toggl-track-auto.status';
+      this.statusBarItem.backgroundColor = undefined;
+      this.statusBarItem.tooltip = `Toggl Track Auto v${this.version}\nClick for status`;
+      return;
+    }
+    this.updateStatusBar(override.entryId
+      ? `$(hand) Toggl: ${override.description.substring(0, 30)}... (manual)`
+      : '$(hand) Toggl: Stopped (manual)');
+    this.statusBarItem.command = 'toggl-track-auto.resumeAuto';
+    this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+    this.statusBarItem.tooltip = 'The timer was changed in the Toggl app, so automatic switching is paused.\nClick to resume automatic tracking.';
+  }
+
+  async resumeAutoTracking() {
+    if (!this.manualOverride) {
+      vscode.window.showInformationMessage('Toggl: Automatic tracking is already active');
+      return;
+    }
+    this.manualOverride = null;
+    this.updateManualOverrideStatus();
+    this.currentBranch = ''; // Force restart on the current branch
+    await this.checkBranch();
+  }
+
+  private checkSchedule(): Promise<void> {
+    this.branchCheck = this.branchCheck
+      .then(() => this.checkScheduleNow())
+      .catch(error => console.error('Toggl: working hours check failed:', error));
+    return this.branchCheck;
+  }
+
+  /** Stop the timer when the working day ends and report on the daily target. */
+  private async checkScheduleNow() {
+    if (!this.isTracking || !this.ownership.isOwner()) return;
+
+    const hours = getWorkingHours();
+    const now = new Date();
+    const inHours = isWithinWorkingHours(now, hours);
+    const wasInHours = this.wasInWorkingHours;
+    this.wasInWorkingHours = inHours;
+
+    if (inHours) {
+      // A new working period: off-hours decisions don't carry over
+      this.offHoursApproved = false;
+      this.offHoursDeclined = false;
+      await this.notifyDailyTotal(false);
+      return;
+    }
+    if (!wasInHours) return;
+
+    const config = this.getConfig();
+    if (config.get<boolean>('enforceWorkingHours') && this.currentEntryId
+        && !this.manualOverride && !this.isOnBreak && !this.offHoursApproved) {
+      // End the entry at the scheduled end, not whenever this poll happened to run
+      const window = getWorkingWindow(getZonedClock(now, hours.timezone).dateKey, hours);
+      const stopAt = window && window.end <= now ? window.end : undefined;
+      log(`working hours are over, stopping ${this.currentDescription}`);
+      this.clearPendingSwitch();
+      await this.stopCurrentEntry(stopAt);
+      this.currentBranch = '';
+      this.updateStatusBar('$(clock) Toggl: Outside working hours');
+      vscode.window.showInformationMessage(
+        'Toggl: Working hours are over, the timer was stopped.',
+        'Keep Tracking'
+      ).then(choice => {
+        if (choice === 'Keep Tracking') this.trackOutsideWorkingHours();
+      });
+    }
+    await this.notifyDailyTotal(true);
+  }
+
+  /**
+   * Tell the user once a day how today's total compares to dailyTargetHours:
+   * as soon as the target is reached, or at the end of the working day.
+   */
+  private async notifyDailyTotal(endOfDay: boolean) {
+    const targetHours = this.getConfig().get<number>('dailyTargetHours') || 0;
+    if (targetHours <= 0) return;
+
+    const hours = getWorkingHours();
+    const today = getZonedClock(new Date(), hours.timezone).dateKey;
+    if (this.globalState.get<string>(DAILY_TARGET_KEY) === today) return;
+    // Reaching the target is only checked every 15 minutes
+    if (!endOfDay && Date.now() - this.lastDailyTargetCheck < 15 * 60 * 1000) return;
+    this.lastDailyTargetCheck = Date.now();
+
+    const entries = await loadReportEntries(zonedTimeToDate(today, 0, hours.timezone), new Date());
+    const tracked = entries
+      .filter(e => !isBreakEntry(e.description))
+      .reduce((sum, e) => sum + e.seconds, 0);
+    const target = targetHours * 3600;
+
+    if (tracked >= target) {
+      await this.globalState.update(DAILY_TARGET_KEY, today);
+      vscode.window.showInformationMessage(`🎯 Toggl: Daily target reached - ${formatDuration(tracked)} tracked today`);
+    } else if (endOfDay) {
+      await this.globalState.update(DAILY_TARGET_KEY, today);
+      const choice = await vscode.window.showInformationMessage(
+        `Toggl: ${formatDuration(tracked)} tracked today, ${formatDuration(target - tracked)} short of your ${targetHours}h target`,
+        'Open Report'
+      );
+      if (choice === 'Open Report') TimeReportPanel.show();
+    }
+  }
+
+  /** Ask before the first automatic start outside working hours (once per off-hours period). */
+  private promptOffHoursStart(branch: string) {
+    if (this.offHoursPromptOpen || this.offHoursDeclined) return;
+    this.offHoursPromptOpen = true;
+    vscode.window.showInformationMessage(
+      `Toggl: You're outside your working hours. Start tracking ${branch}?`,
+      'Start Timer', 'Not Now'
+    ).then(choice => {
+      this.offHoursPromptOpen = false;
+      if (choice === 'Start Timer') {
+        this.trackOutsideWorkingHours();
+      } else {
+        this.offHoursDeclined = true;
+      }
+    });
+  }
+
+  async trackOutsideWorkingHours() {
+    this.offHoursApproved = true;
+    this.offHoursDeclined = false;
+    this.currentBranch = ''; // Force restart on the current branch
+    await this.checkBranch();
+  }
+
+  async start() {
+    const config = this.getConfig();
+    if (!config.get<boolean>('enabled')) {
+      this.updateStatusBar('$(clock) Toggl: Disabled');
+      return;
+    }
+
+    const apiToken = getTogglToken();
+    if (!apiToken) {
+      this.updateStatusBar('$(warning) Toggl: No API token');
+      vscode.window.showWarningMessage(
+        'Toggl Track Auto: No API token yet. Run "Toggl: Setup" to add it.'
+      );
+      return;
+    }
+
+    // Check if the current repo belongs to an allowed org
+    const orgAllowed = await this.checkOrgAllowed();
     if (!orgAllowed) {
       const org = await this.getGitRemoteOrg();
-      console.log(`Toggl: Repo org "${org || 'unknown'}" not in allowed list, staying silent`);
-      this.statusBarItem.hide();
-      this.newBranchStatusBarItem.hide();
-      this.breakStatusBarItem.hide();
-      vscode.commands.executeCommand('setContext', 'togglMondayTask.visible', false);
+      log(`Repo org "${org || 'unknown'}" not in allowed list, staying silent`);
+      this.stoppedByOrgFilter = true;
+      this.setVisible(false);
       return;
     }
 
-    this.statusBarItem.show();
-    this.newBranchStatusBarItem.show();
-    this.breakStatusBarItem.show();
-    vscode.commands.executeCommand('setContext', 'togglMondayTask.visible', true);
+    this.setVisible(true);
     this.isTracking = true;
-    await this.checkBranch();
+    this.stoppedByOrgFilter = false;
+    if (await this.ownership.tryClaim()) {
+      // No other live window, so a persisted running entry belongs to a dead session
+      await this.reconcileOrphanedEntry();
+      await this.checkBranch();
+    } else {
+      this.updateFollowerStatus();
+    }
 
-    // Check branch every 10 seconds
-    this.checkInterval = setInterval(() => this.checkBranch(), 15000);
+    // Branch switches arrive through BranchWatcher; this slow poll is only a safety net
+    this.checkInterval = setInterval(() => this.checkBranch(), 5 * 60 * 1000);
 
     // Check for idle every 30 seconds
     this.idleCheckInterval = setInterval(() => this.checkIdle(), 30000);
 
+    // Pick up timers started, stopped or edited outside VS Code; not worth an API call while nobody is here
+    const externalSyncSeconds = config.get<number>('externalSyncSeconds') ?? 300;
+    if (externalSyncSeconds > 0) {
+      this.externalSyncInterval = setInterval(() => {
+        const idleMs = (this.getConfig().get<number>('idleTimeoutMinutes') || 5) * 60 * 1000;
+        if (vscode.window.state.focused && Date.now() - this.lastActivity < idleMs) {
+          this.syncExternalChanges();
+        }
+      }, externalSyncSeconds * 1000);
+    }
+
+    // Working hours: auto-stop at the end of the day and the daily target
+    this.wasInWorkingHours = isWithinWorkingHours(new Date(), getWorkingHours());
+    this.scheduleInterval = setInterval(() => this.checkSchedule(), 60000);
+
+    // Listeners outlive stop()/start() cycles, register them once
+    if (this.listenersRegistered) return;
+    this.listenersRegistered = true;
+
     // Track activity
     vscode.workspace.onDidChangeTextDocument(() => this.onActivity());
     vscode.window.onDidChangeActiveTextEditor(() => this.onActivity());
     vscode.window.onDidChangeTextEditorSelection(() => this.onActivity());
 
-    // Re-check org when workspace folders change
-    vscode.workspace.onDidChangeWorkspaceFolders(async () => {
-      this.lastCheckedOrgFolder = ''; // Reset cache
-      const allowed = await this.checkOrgAllowed();
-      if (!allowed) {
-        console.log('Toggl: Workspace changed to non-allowed org, stopping');
-        await this.stop();
-        this.statusBarItem.hide();
-        this.newBranchStatusBarItem.hide();
-        this.breakStatusBarItem.hide();
-        vscode.commands.executeCommand('setContext', 'togglMondayTask.visible', false);
-      } else {
-        this.statusBarItem.show();
-        this.newBranchStatusBarItem.show();
-        this.breakStatusBarItem.show();
-        vscode.commands.executeCommand('setContext', 'togglMondayTask.visible', true);
-        if (!this.isTracking) {
-          await this.start();
-        }
+    // Focus makes this window the handoff candidate; ownership moves after the grace period
+    vscode.window.onDidChangeWindowState((state) => {
+      if (!this.isTracking) return;
+      this.ownership.setFocused(state.focused);
+      if (state.focused) this.syncExternalChangesOnReturn();
+
+      // Also update sidebar on focus
+      if (state.focused && this.mondaySidebarController) {
+        this.mondaySidebarController.update();
       }
     });
+  }
 
-    // Handle window focus - focused window takes over Toggl
-    vscode.window.onDidChangeWindowState(async (state) => {
-      if (state.focused && this.isTracking) {
-        console.log('Window focused - taking over Toggl tracking (v0.20.0)');
-        // Check what Toggl is currently tracking
-        const currentTogglEntry = await this.getCurrentTogglEntry();
-        const branch = await this.getCurrentBranch();
-        
-        if (branch) {
-          // Get what this branch SHOULD be tracking
-          const ticketId = this.extractTicketId(branch);
-          let expectedDesc = branch;
-          if (ticketId) {
-            const taskName = await this.getMondayTaskName(ticketId);
-            if (taskName) expectedDesc = taskName;
-          }
-          
-          // If Toggl is tracking something different, switch to this branch
-          if (!currentTogglEntry || currentTogglEntry.description !== expectedDesc) {
-            console.log(`Switching from "${currentTogglEntry?.description}" to "${expectedDesc}"`);
-            this.currentBranch = ''; // Force restart
-            await this.checkBranch();
-          }
-        }
+  private async onOwnershipChanged(owner: boolean) {
+    if (!owner) {
+      // Another window drives the timer now; forget the entry without stopping it
+      log('another window took over the timer');
+      this.currentEntryId = null;
+      this.currentDescription = '';
+      this.currentBranch = '';
+      this.updateFollowerStatus();
+      return;
+    }
 
-        // Also update sidebar on focus
-        if (this.mondaySidebarController) {
-          this.mondaySidebarController.update();
-        }
+    // Operations the previous owner left queued are this window's to replay now
+    this.journal.flush();
+    if (!this.isTracking) return;
+    this.statusBarItem.tooltip = `Toggl Track Auto v${this.version}\nThis window owns the timer\nClick for status`;
+    // Adopt the running entry if it's already what this window would track
+    const currentTogglEntry = this.journal.pendingCount === 0 ? await this.getCurrentTogglEntry() : null;
+    const branch = await this.getCurrentBranch();
+    if (branch && currentTogglEntry?.id) {
+      // The previous owner's entry for this repo, with the description it was actually started with
+      // (corrected, maintenance...); otherwise what this window would start
+      const saved = this.globalState.get<PersistedRunningEntry>(RUNNING_ENTRY_KEY);
+      const inherited = saved && saved.entryId === currentTogglEntry.id && saved.root === (getWorkspaceRoot() || '') ? saved : null;
+      const expectedDesc = inherited?.description
+        ?? (this.getBranchCorrection(branch)?.description || (await this.buildEntryDescription(branch)).description);
+      if (currentTogglEntry.description === expectedDesc) {
+        this.currentEntryId = currentTogglEntry.id;
+        this.currentDescription = expectedDesc;
+        this.currentBranch = inherited?.branch || branch;
+        this.recordRunningEntry();
+        this.updateStatusBar(`$(clock) Toggl: ${expectedDesc.substring(0, 30)}...`);
+        return;
+      }
+      log(`Switching from "${currentTogglEntry.description}" to "${expectedDesc}"`);
+    }
+    this.currentBranch = ''; // Force restart
+    await this.checkBranch();
+  }
+
+  /**
+   * Share the running entry with other windows and persist it (with the last
+   * activity) so a crash can be cleaned up on the next activation.
+   */
+  private recordRunningEntry() {
+    const root = getWorkspaceRoot();
+    this.ownership.update({
+      repo: root ? path.basename(root) : '',
+      description: this.currentDescription,
+    });
+    if (this.currentEntryId && this.currentEntryId > 0) {
+      const running: PersistedRunningEntry = {
+        entryId: this.currentEntryId,
+        description: this.currentDescription,
+        lastActivity: this.lastActivity,
+        root: root || '',
+        branch: this.currentBranch,
+      };
+      this.globalState.update(RUNNING_ENTRY_KEY, running);
+    } else {
+      this.globalState.update(RUNNING_ENTRY_KEY, undefined);
+    }
+  }
+
+  /**
+   * Look for an entry left running by a crashed or killed session: the entry
+   * we persisted is still the server's current one, but nothing happened
+   * since longer than the idle timeout. Offer to cut it at the last activity.
+   */
+  private async reconcileOrphanedEntry() {
+    const saved = this.globalState.get<PersistedRunningEntry>(RUNNING_ENTRY_KEY);
+    if (!saved) return;
+
+    const config = this.getConfig();
+    const mode = config.get<string>('orphanedEntryCleanup') || 'ask';
+    if (mode === 'off') return;
+
+    const current = await this.getCurrentTogglEntry();
+    if (!current || current.id !== saved.entryId) {
+      // Stopped or replaced elsewhere in the meantime - nothing to clean up
+      this.globalState.update(RUNNING_ENTRY_KEY, undefined);
+      return;
+    }
+
+    const idleMs = (config.get<number>('idleTimeoutMinutes') || 5) * 60 * 1000;
+    if (Date.now() - saved.lastActivity < idleMs) return; // Just a reload
+
+    const stopAt = new Date(saved.lastActivity);
+    const stopLabel = stopAt.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+    const extraMinutes = Math.round((Date.now() - saved.lastActivity) / 60000);
+    const extra = extraMinutes >= 60 ? `${Math.floor(extraMinutes / 60)}h${String(extraMinutes % 60).padStart(2, '0')}` : `${extraMinutes} min`;
+
+    const truncate = async () => {
+      try {
+        await this.journal.update(saved.entryId, { stop: stopAt.toISOString() });
+        this.globalState.update(RUNNING_ENTRY_KEY, undefined);
+        log(`truncated orphaned entry ${saved.entryId} to ${stopAt.toISOString()}`);
+      } catch (error) {
+        console.error('Failed to truncate orphaned entry:', error);
+        vscode.window.showErrorMessage('Toggl: Failed to truncate the orphaned entry');
+      }
+    };
+
+    if (mode === 'auto') {
+      await truncate();
+      vscode.window.showInformationMessage(`Toggl: "${saved.description}" was left running after VS Code closed - stopped it at ${stopLabel} (${extra} removed)`);
+      return;
+    }
+
+    // Not awaited so activation finishes, but branch checks and external sync leave the entry alone until answered
+    this.orphanQuestionEntryId = saved.entryId;
+    this.updateStatusBar('$(question) Toggl: Waiting for your answer');
+    vscode.window.showWarningMessage(
+      `Toggl: "${saved.description}" kept running for ${extra} after your last activity (${stopLabel}), probably because VS Code was closed or crashed. Truncate it?`,
+      'Truncate', 'Always Truncate', 'Keep'
+    ).then(async (action) => {
+      if (action === 'Always Truncate') {
+        await config.update('orphanedEntryCleanup', 'auto', vscode.ConfigurationTarget.Global);
+      }
+      if (action === 'Truncate' || action === 'Always Truncate') {
+        await truncate();
+      } else if (action === 'Keep') {
+        this.globalState.update(RUNNING_ENTRY_KEY, undefined);
       }
+      this.orphanQuestionEntryId = null;
+      this.currentBranch = ''; // Force restart
+      await this.checkBranch();
     });
   }
 
+  private updateFollowerStatus() {
+    if (this.ownership.isOwner() || !this.isTracking || this.isOnBreak) return;
+    const owner = this.ownership.owner;
+    if (owner) {
+      const where = owner.repo ? `${owner.windowName} / ${owner.repo}` : owner.windowName;
+      this.updateStatusBar(`$(link-external) Toggl: ${(owner.description || 'idle').substring(0, 25)}... (${where})`);
+      this.statusBarItem.tooltip = `Timer is owned by window "${owner.windowName}"${owner.repo ? ` (repo ${owner.repo})` : ''}.\nFocus this window to take over.`;
+    } else {
+      this.updateStatusBar('$(clock) Toggl: Waiting for focus');
+    }
+  }
+
   async stop() {
     this.isTracking = false;
+    this.stoppedByOrgFilter = false;
     if (this.checkInterval) {
       clearInterval(this.checkInterval);
       this.checkInterval = null;
@@ -1966,12 +5956,38 @@ class TogglTracker {
       clearInterval(this.idleCheckInterval);
       this.idleCheckInterval = null;
     }
-    await this.stopCurrentEntry();
+    if (this.externalSyncInterval) {
+      clearInterval(this.externalSyncInterval);
+      this.externalSyncInterval = null;
+    }
+    if (this.scheduleInterval) {
+      clearInterval(this.scheduleInterval);
+      this.scheduleInterval = null;
+    }
+    this.clearPendingSwitch();
+    if (this.ownership.isOwner()) {
+      await this.stopCurrentEntry();
+    }
+    await this.ownership.release();
+    this.manualOverride = null;
+    this.updateManualOverrideStatus();
     this.updateStatusBar('$(clock) Toggl: Stopped');
   }
 
   private onActivity() {
+    const away = Date.now() - this.lastActivity > 60000;
     this.lastActivity = Date.now();
+    if (away) this.syncExternalChangesOnReturn();
+    if (this.idlePeriod && !this.idlePeriod.returnedAt) {
+      this.idlePeriod.returnedAt = this.lastActivity;
+      this.promptIdleReturn();
+      return;
+    }
+    // Nothing polls every few seconds anymore, so resume from activity (throttled)
+    if (this.isTracking && !this.currentEntryId && !this.idlePeriod && this.lastActivity - this.lastResumeAttempt > 30000) {
+      this.lastResumeAttempt = this.lastActivity;
+      this.checkBranch();
+    }
   }
 
   private async checkIdle() {
@@ -1979,33 +5995,198 @@ class TogglTracker {
     const idleTimeout = config.get<number>('idleTimeoutMinutes') || 5;
     const idleMs = idleTimeout * 60 * 1000;
 
-    if (Date.now() - this.lastActivity > idleMs && this.currentEntryId) {
+    // Keep the persisted last activity fresh for crash recovery
+    if (this.currentEntryId && Date.now() - this.lastActivity <= idleMs) {
+      this.recordRunningEntry();
+    }
+
+    if (Date.now() - this.lastActivity > idleMs && this.currentEntryId && !this.manualOverride) {
+      // The timer may have been stopped or switched in the Toggl app meanwhile; don't stop that one
+      await this.syncExternalChanges();
+      if (!this.currentEntryId || this.manualOverride || Date.now() - this.lastActivity <= idleMs) return;
+      if (!this.isOnBreak) {
+        // Remember what was running so the user can decide about the idle time on return
+        this.idlePeriod = {
+          entryId: this.currentEntryId,
+          description: this.currentDescription,
+          branch: this.currentBranch,
+          idleStart: this.lastActivity,
+        };
+      }
       await this.stopCurrentEntry();
       this.updateStatusBar('$(clock) Toggl: Idle (paused)');
     }
   }
 
-  private async getCurrentBranch(): Promise<string | null> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return null;
+  /**
+   * Ask what to do with the idle time once the user is back, then rewrite the
+   * stopped entry's `stop` accordingly and resume tracking.
+   */
+  private async promptIdleReturn() {
+    const period = this.idlePeriod;
+    if (!period?.returnedAt) return;
+
+    const idleStart = new Date(period.idleStart);
+    const returnedAt = new Date(period.returnedAt);
+    const idleMinutes = Math.round((period.returnedAt - period.idleStart) / 60000);
+    const since = idleStart.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    // A timer started in the Toggl app while the user was away wins: nothing to continue or assign
+    const server = await this.getCurrentTogglEntry();
+    if (server?.id) {
+      log(`"${server.description || ''}" was started outside VS Code during the idle time, leaving the idle entry stopped`);
+      this.idlePeriod = null;
+      await this.syncExternalChanges();
+      return;
     }
 
+    this.updateStatusBar(`$(clock) Toggl: Idle ${idleMinutes} min - waiting for your choice`);
+
+    // A toast that slid into the notification centre never resolves, and tracking waits on this answer:
+    // without one in time, keep the time (an answer arriving after that is ignored)
+    let timeout: NodeJS.Timeout | undefined;
+    const action = await Promise.race([
+      vscode.window.showInformationMessage(
+        `Toggl: You were idle for ${idleMinutes} min (since ${since}). What should happen to that time?`,
+        'Keep', 'Discard', 'Assign…', 'Split…'
+      ),
+      new Promise<'Keep'>(resolve => {
+        timeout = setTimeout(() => {
+          log(`no answer to the idle prompt within ${IDLE_PROMPT_TIMEOUT_MS / 60000} min, keeping the idle time`);
+          resolve('Keep');
+        }, IDLE_PROMPT_TIMEOUT_MS);
+      }),
+    ]);
+    clearTimeout(timeout);
+
     try {
-      const { stdout } = await execAsync('git rev-parse --abbrev-ref HEAD', {
-        cwd: workspaceFolders[0].uri.fsPath,
-      });
-      return stdout.trim();
-    } catch {
-      return null;
+      // A dismissed notification is not a decision to throw time away, so it keeps the time too
+      if (action === 'Keep' || action === undefined) {
+        // The entry never really stopped: run it again from its original start
+        this.currentEntryId = await this.journal.continueEntry(period.entryId);
+        this.currentDescription = period.description;
+        this.currentBranch = period.branch;
+        this.recordRunningEntry();
+        this.idlePeriod = null;
+        this.updateStatusBar(`$(clock) Toggl: ${period.description.substring(0, 30)}...`);
+        await this.checkBranch();
+        return;
+      }
+
+      // Everything else ends the previous entry when the user went idle (or at the split point)
+      let splitAt = idleStart;
+      if (action === 'Split…') {
+        const picked = await this.pickSplitTime(idleStart, returnedAt);
+        if (picked) splitAt = picked;
+      }
+      await this.journal.update(period.entryId, { stop: splitAt.toISOString() });
+
+      if ((action === 'Assign…' || action === 'Split…') && splitAt < returnedAt) {
+        const target = await this.pickIdleTarget(period.description, getRecordedEntryTask(period.entryId));
+        if (target) {
+          const idleId = await this.journal.start({
+            description: target.description,
+            workspace_id: this.getConfig().get<number>('workspaceId'),
+            start: splitAt.toISOString(),
+            stop: returnedAt.toISOString(),
+            duration: Math.round((returnedAt.getTime() - splitAt.getTime()) / 1000),
+            created_with: 'toggl-track-vscode',
+            billable: target.billable,
+          });
+          recordEntryTask(idleId, target.taskId);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to apply idle time choice:', error);
+      vscode.window.showErrorMessage('Toggl: Failed to update the idle entry');
+    }
+
+    // Resume on the current branch from the moment the user came back
+    this.idlePeriod = null;
+    const branch = await this.getCurrentBranch();
+    if (branch && this.isTracking && !this.manualOverride) {
+      this.currentBranch = branch;
+      await this.startNewEntry(branch, { startAt: returnedAt, allowContinue: false });
+    }
+  }
+
+  private async pickSplitTime(from: Date, to: Date): Promise<Date | undefined> {
+    const format = (d: Date) => d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+    const middle = new Date((from.getTime() + to.getTime()) / 2);
+    const parse = (value: string): Date | null => {
+      const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+      if (!match) return null;
+      const d = new Date(to);
+      d.setHours(Number(match[1]), Number(match[2]), 0, 0);
+      if (d > to) d.setDate(d.getDate() - 1);
+      return d;
+    };
+
+    const input = await vscode.window.showInputBox({
+      title: 'Split idle time',
+      prompt: `Until when did you work on the previous task? (${format(from)} – ${format(to)})`,
+      value: format(middle),
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        const d = parse(value);
+        if (!d) return 'Use HH:MM';
+        if (d < from || d > to) return `Must be between ${format(from)} and ${format(to)}`;
+        return null;
+      },
+    });
+    return input ? parse(input) || undefined : undefined;
+  }
+
+  private async pickIdleTarget(
+    previousDescription: string,
+    previousTaskId: string | null
+  ): Promise<{ description: string; billable: boolean; taskId?: string | null } | undefined> {
+    const config = this.getConfig();
+    const billable = config.get<boolean>('billable') ?? true;
+    const items: (vscode.QuickPickItem & { target?: { description: string; billable: boolean; taskId?: string | null } })[] = [];
+
+    items.push({ label: 'Breaks', kind: vscode.QuickPickItemKind.Separator } as any);
+    for (const breakType of BREAK_TYPES) {
+      items.push({ label: breakType, target: { description: breakType.replace(/^[^\s]+\s/, ''), billable: false } });
+    }
+    items.push({ label: 'Meeting', target: { description: 'Meeting', billable } });
+
+    items.push({ label: 'Tasks', kind: vscode.QuickPickItemKind.Separator } as any);
+    if (previousDescription) {
+      items.push({ label: previousDescription, description: 'previous task', target: { description: previousDescription, billable, taskId: previousTaskId } });
+    }
+    const token = getMondayToken();
+    if (isMondayEnabled() && token) {
+      const tasks = await fetchUserTasks(token, getMondayBoardId());
+      for (const task of tasks as any[]) {
+        const description = describeMondayTask(task);
+        items.push({ label: task.name, description: `#${task.id}  ·  ${task.group || ''}`, target: { description, billable, taskId: task.id } });
+      }
     }
+    items.push({ label: '$(edit) Other…', description: 'Type a description' });
+
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Assign the idle time to…',
+      matchOnDescription: true,
+      ignoreFocusOut: true,
+    });
+    if (!picked) return undefined;
+    if (picked.target) return picked.target;
+
+    const description = await vscode.window.showInputBox({ prompt: 'Description for the idle time', ignoreFocusOut: true });
+    return description ? { description, billable } : undefined;
+  }
+
+  private async getCurrentBranch(): Promise<string | null> {
+    // Git extension state first, `git rev-parse` only as a fallback
+    const { branch } = await getTrackedBranch();
+    return branch;
   }
 
   private extractTicketId(branch: string): string | null {
     return extractTaskIdFromBranch(branch);
   }
 
-  private async getMondayTaskName(ticketId: string): Promise<string | null> {
+  private async getMondayTaskInfo(ticketId: string): Promise<MondayTaskSummary | null> {
     // Skip Monday API calls when integration is disabled
     if (!isMondayEnabled()) return null;
 
@@ -2022,6 +6203,11 @@ class TogglTracker {
           items(ids: [${ticketId}]) {
             id
             name
+            group { title }
+            column_values(ids: ["status9", "dup__of_priority_mkkassyk"]) {
+              id
+              text
+            }
           }
         }
       `;
@@ -2039,9 +6225,15 @@ class TogglTracker {
 
       const items = response.data?.data?.items;
       if (items && items.length > 0) {
-        const name = items[0].name;
-        this.taskCache.set(ticketId, name);
-        return name;
+        const item = items[0];
+        const info: MondayTaskSummary = {
+          name: item.name,
+          group: item.group?.title || '',
+          status: item.column_values?.find((c: any) => c.id === 'status9')?.text || '',
+          priority: item.column_values?.find((c: any) => c.id === 'dup__of_priority_mkkassyk')?.text || '',
+        };
+        this.taskCache.set(ticketId, info);
+        return info;
       }
     } catch (error) {
       console.error('Failed to fetch Monday.com task:', error);
@@ -2050,10 +6242,39 @@ class TogglTracker {
     return null;
   }
 
+  /**
+   * Build the template context for a branch and render `entryFormat` with it.
+   * Everything that compares descriptions must go through here.
+   */
+  private async buildEntryDescription(
+    branch: string,
+    root: string | null = getWorkspaceRoot()
+  ): Promise<{ description: string; context: EntryTemplateContext }> {
+    const config = this.getConfig();
+    const ticketId = this.extractTicketId(branch);
+    const task = ticketId ? await this.getMondayTaskInfo(ticketId) : null;
+    const remote = await this.getGitRemoteInfo(root);
+
+    const context: EntryTemplateContext = {
+      ticket_id: ticketId || '',
+      task_name: task?.name || '',
+      branch,
+      repo: remote?.repo || (root ? path.basename(root) : ''),
+      org: remote?.org || '',
+      group: task?.group || '',
+      status: task?.status || '',
+      priority: task?.priority || '',
+      branch_type: getBranchType(branch),
+    };
+
+    const format = config.get<string>('entryFormat') || DEFAULT_ENTRY_FORMAT;
+    const maxLength = config.get<number>('entryMaxLength') || 0;
+    return { description: renderEntryDescription(format, context, maxLength), context };
+  }
+
   // Find previous Toggl entry with same description
   private async getPreviousEntry(description: string): Promise<any | null> {
-    const config = this.getConfig();
-    const apiToken = config.get<string>('apiToken');
+    const apiToken = getTogglToken();
     
     if (!apiToken) return null;
     
@@ -2109,8 +6330,7 @@ class TogglTracker {
   }
 
   private async getCurrentTogglEntry(): Promise<any | null> {
-    const config = this.getConfig();
-    const apiToken = config.get<string>('apiToken');
+    const apiToken = getTogglToken();
     
     if (!apiToken) return null;
     
@@ -2127,11 +6347,27 @@ class TogglTracker {
     }
   }
 
-  private async checkBranch() {
-    if (!this.isTracking) return;
+  private checkBranch(): Promise<void> {
+    this.branchCheck = this.branchCheck
+      .then(() => this.checkBranchNow())
+      .catch(error => console.error('Toggl: branch check failed:', error));
+    return this.branchCheck;
+  }
 
-    const branch = await this.getCurrentBranch();
-    if (!branch) {
+  private async checkBranchNow() {
+    if (!this.isTracking) return;
+    // Only the owning window touches the timer
+    if (!this.ownership.isOwner()) return;
+    // The user took the wheel in the Toggl app - wait for "Resume Automatic Tracking"
+    if (this.manualOverride) return;
+    // Don't restart behind the idle prompt's back
+    if (this.idlePeriod) return;
+    // Nor adopt (and stop or continue) an orphaned entry before the user has said what to do with it
+    if (this.orphanQuestionEntryId) return;
+
+    const tracked = await getTrackedBranch();
+    const operation = tracked.operation;
+    if (!tracked.branch && !operation) {
       if (this.currentEntryId) {
         await this.stopCurrentEntry();
       }
@@ -2139,54 +6375,104 @@ class TogglTracker {
       return;
     }
 
+    // During a rebase/merge/bisect/detached checkout keep the originating branch's
+    // task, or switch to the maintenance entry when configured (or no origin is known)
+    const config = this.getConfig();
+    const useMaintenance = !!operation
+      && (config.get<string>('gitOperationTracking') === 'maintenance' || !tracked.branch);
+    const branch = useMaintenance ? `(git ${operation!.kind})` : tracked.branch!;
+
+    // Outside the working-hours schedule nothing starts without the user's say-so
+    if (!this.currentEntryId && !this.offHoursApproved && config.get<boolean>('enforceWorkingHours')
+        && !isWithinWorkingHours(new Date(), getWorkingHours())) {
+      this.updateStatusBar('$(clock) Toggl: Outside working hours');
+      this.promptOffHoursStart(branch);
+      return;
+    }
+
     // Only call Toggl API when branch changes or no active entry (saves API quota)
     if (branch === this.currentBranch && this.currentEntryId) {
+      if (this.pendingSwitch) {
+        log(`back on ${branch} after ${Math.round((Date.now() - this.pendingSwitch.since) / 1000)}s on ${this.pendingSwitch.branch}, timer unchanged`);
+        this.clearPendingSwitch();
+      }
       return;
     }
 
+    // Quick hops (pull on main, peek at a colleague's branch) don't switch the timer
+    let switchedAt: Date | undefined;
+    const dwellMs = (config.get<number>('branchDwellSeconds') ?? 60) * 1000;
+    if (this.currentEntryId && this.currentBranch && dwellMs > 0) {
+      if (this.pendingSwitch?.branch !== branch) {
+        this.clearPendingSwitch();
+        this.pendingSwitch = {
+          branch,
+          since: Date.now(),
+          timer: setTimeout(() => this.checkBranch(), dwellMs + 500),
+        };
+        log(`on ${branch}, switching the timer if you stay for ${dwellMs / 1000}s`);
+        return;
+      }
+      if (Date.now() - this.pendingSwitch.since < dwellMs) return;
+      // Count the time from the actual checkout
+      switchedAt = new Date(this.pendingSwitch.since);
+    }
+    this.clearPendingSwitch();
+
     // Resume tracking if we were idle
     if (!this.currentEntryId && Date.now() - this.lastActivity < 30000) {
       this.currentBranch = ''; // Force restart
     }
 
     if (branch !== this.currentBranch) {
-      // Sync with Toggl only on branch change
-      const currentTogglEntry = await this.getCurrentTogglEntry();
+      // Sync with Toggl only on branch change (the server is stale while operations are queued)
+      const currentTogglEntry = this.journal.pendingCount === 0 ? await this.getCurrentTogglEntry() : null;
       if (currentTogglEntry && currentTogglEntry.id) {
         this.currentEntryId = currentTogglEntry.id;
         this.currentDescription = currentTogglEntry.description || '';
       }
 
+      const switching = !!this.currentEntryId;
       this.currentBranch = branch;
-      await this.stopCurrentEntry();
-      await this.startNewEntry(branch);
-
-      // Update Monday sidebar when branch changes
-      if (this.mondaySidebarController) {
-        this.mondaySidebarController.update();
+      await this.stopCurrentEntry(switchedAt);
+      if (useMaintenance) {
+        const format = config.get<string>('maintenanceEntry') || 'Git maintenance ({operation})';
+        await this.startNewEntry(tracked.branch || 'HEAD', {
+          startAt: switchedAt,
+          description: format.replace(/\{operation\}/g, operation!.kind).replace(/\{branch\}/g, tracked.branch || 'HEAD'),
+        });
+      } else {
+        await this.startNewEntry(branch, { startAt: switchedAt });
+      }
+      if (switching && config.get<boolean>('compactAfterSwitch')) {
+        this.compactEntries();
       }
+      if (operation && this.currentEntryId) {
+        this.updateStatusBar(`$(git-merge) Toggl: ${this.currentDescription.substring(0, 30)}... (${operation.kind} in progress)`);
+      }
+    }
+  }
+
+  private clearPendingSwitch() {
+    if (this.pendingSwitch) {
+      clearTimeout(this.pendingSwitch.timer);
+      this.pendingSwitch = null;
     }
   }
 
-  private async stopCurrentEntry() {
+  private async stopCurrentEntry(at?: Date) {
     if (!this.currentEntryId) return;
 
     const config = this.getConfig();
-    const apiToken = config.get<string>('apiToken');
+    const apiToken = getTogglToken();
     const workspaceId = config.get<number>('workspaceId');
 
     if (!apiToken || !workspaceId) return;
 
-    try {
-      await axios.patch(
-        `https://api.track.toggl.com/api/v9/workspaces/${workspaceId}/time_entries/${this.currentEntryId}/stop`,
-        {},
-        {
-          auth: { username: apiToken, password: 'api_token' },
-        }
-      );
-    } catch (error) {
-      console.error('Failed to stop Toggl entry:', error);
+    // Queued by the journal if Toggl is unreachable
+    await this.journal.stop(this.currentEntryId, at);
+    if (this.currentEntryId > 0 && !isBreakEntry(this.currentDescription)) {
+      this.normalizeStoppedEntry(this.currentEntryId);
     }
 
     // Save info for resume feature
@@ -2196,69 +6482,118 @@ class TogglTracker {
     
     this.currentEntryId = null;
     this.currentDescription = '';
+    this.globalState.update(RUNNING_ENTRY_KEY, undefined);
   }
 
-  private async startNewEntry(branch: string) {
+  /**
+   * Project, tags and billable flag for a new entry, in increasing priority:
+   * settings, the previous entry with the same description, project rules,
+   * then the user's own correction for the branch.
+   */
+  private resolveEntryFields(
+    branch: string,
+    context: EntryTemplateContext,
+    previousEntry: any | null,
+    root: string | null = getWorkspaceRoot()
+  ): { projectId: number; tags: string[]; billable: boolean; explanation: string[] } {
     const config = this.getConfig();
-    const apiToken = config.get<string>('apiToken');
-    const workspaceId = config.get<number>('workspaceId');
-    let projectId = config.get<number>('projectId');
-
-    if (!apiToken || !workspaceId) return;
-
-    const ticketId = this.extractTicketId(branch);
-    let description = branch;
+    let projectId = config.get<number>('projectId') || 0;
+    let billable = config.get<boolean>('billable') ?? true;
     let tags: string[] = [];
+    let projectReason = projectId > 0 ? 'togglTrackAuto.projectId setting' : 'no rule, previous entry or projectId setting applied';
+    let tagsReason = 'none';
+    let billableReason = 'togglTrackAuto.billable setting';
 
-    if (ticketId) {
-      const taskName = await this.getMondayTaskName(ticketId);
-      
-      if (taskName) {
-        // If we found a task name, just use it (no ID needed)
-        description = taskName;
-      } else {
-        // No task name found, use ID + branch
-        description = `[${ticketId}] ${branch}`;
-      }
-    }
-    
-    // Look up previous Toggl entry with same description to copy project/tags
-    const previousEntry = await this.getPreviousEntry(description);
-    
     if (previousEntry) {
       // Reuse project and tags from previous entry
       if (previousEntry.project_id) {
         projectId = previousEntry.project_id;
+        projectReason = `copied from previous entry "${previousEntry.description}"`;
       }
       if (previousEntry.tags && previousEntry.tags.length > 0) {
         tags = [...previousEntry.tags];
+        tagsReason = `copied from previous entry "${previousEntry.description}"`;
       }
-      
+    }
+
+    // Explicit rules beat both the setting and the previous entry
+    const ruleMatch = findEntryRule(context, this.userRulesPath);
+    if (ruleMatch) {
+      const { rule } = ruleMatch;
+      const source = describeEntryRule(ruleMatch);
+      if (rule.projectId !== undefined) {
+        projectId = rule.projectId;
+        projectReason = source;
+      }
+      if (rule.tags !== undefined) {
+        tags = [...rule.tags];
+        tagsReason = source;
+      }
+      if (rule.billable !== undefined) {
+        billable = rule.billable;
+        billableReason = source;
+      }
+    }
+
+    // A correction the user made to an earlier entry on this branch wins over everything
+    const correction = this.getBranchCorrection(branch, root);
+    const correctionSource = 'your earlier edit of an entry on this branch';
+    if (correction?.projectId !== undefined) {
+      projectId = correction.projectId ?? 0;
+      projectReason = correctionSource;
+    }
+    if (correction?.tags !== undefined) {
+      tags = [...correction.tags];
+      tagsReason = correctionSource;
+    }
+    if (correction?.billable !== undefined) {
+      billable = correction.billable;
+      billableReason = correctionSource;
+    }
+
+    return {
+      projectId,
+      tags,
+      billable,
+      explanation: [
+        `Project ${projectId > 0 ? projectId : 'none'}: ${projectReason}`,
+        `Tags [${tags.join(', ')}]: ${tagsReason}`,
+        `Billable ${billable ? 'yes' : 'no'}: ${billableReason}`,
+      ],
+    };
+  }
+
+  private async startNewEntry(branch: string, options: { startAt?: Date; allowContinue?: boolean; description?: string } = {}) {
+    const config = this.getConfig();
+    const apiToken = getTogglToken();
+    const workspaceId = config.get<number>('workspaceId');
+
+    if (!apiToken || !workspaceId) return;
+
+    const built = await this.buildEntryDescription(branch);
+    const description = options.description || this.getBranchCorrection(branch)?.description || built.description;
+
+    // Look up previous Toggl entry with same description to copy project/tags
+    const previousEntry = await this.getPreviousEntry(description);
+    
+    if (previousEntry) {
       // Check if we should continue the previous entry (stopped within 10 min)
       const tenMinutesMs = 10 * 60 * 1000;
       const entryStopTime = new Date(previousEntry.stop).getTime();
       const timeSinceStop = Date.now() - entryStopTime;
       
-      if (timeSinceStop < tenMinutesMs) {
+      if (timeSinceStop < tenMinutesMs && options.allowContinue !== false) {
         // Continue the previous entry by updating it to be running again
-        console.log('Continuing previous Toggl entry');
+        log('Continuing previous Toggl entry');
         
         try {
           // Update the previous entry: set duration to -1 (running) and keep original start
-          const response = await axios.put(
-            `https://api.track.toggl.com/api/v9/workspaces/${workspaceId}/time_entries/${previousEntry.id}`,
-            {
-              duration: -1, // Make it running again
-              stop: null,   // Remove stop time
-            },
-            {
-              auth: { username: apiToken, password: 'api_token' },
-            }
-          );
-          
-          this.currentEntryId = response.data.id;
+          this.currentEntryId = await this.journal.continueEntry(previousEntry.id);
+          recordEntryTask(this.currentEntryId, built.context.ticket_id);
           this.currentDescription = description;
+          this.entryExplanation = [`Continued previous entry "${previousEntry.description}" (stopped less than 10 min ago), project and tags kept as-is`];
           this.updateStatusBar(`$(clock) Toggl: ${description.substring(0, 30)}... (continued)`);
+          this.recordRunningEntry();
           return;
         } catch (error) {
           console.error('Failed to continue entry, creating new one:', error);
@@ -2266,14 +6601,16 @@ class TogglTracker {
       }
     }
 
+    const { projectId, tags, billable, explanation } = this.resolveEntryFields(branch, built.context, previousEntry);
+
     try {
       const payload: any = {
         description,
         workspace_id: workspaceId,
-        start: new Date().toISOString(),
+        start: (options.startAt || new Date()).toISOString(),
         duration: -1, // Running timer
         created_with: 'toggl-track-vscode',
-        billable: true,
+        billable,
       };
 
       if (projectId && projectId > 0) {
@@ -2284,17 +6621,13 @@ class TogglTracker {
         payload.tags = tags;
       }
 
-      const response = await axios.post(
-        `https://api.track.toggl.com/api/v9/workspaces/${workspaceId}/time_entries`,
-        payload,
-        {
-          auth: { username: apiToken, password: 'api_token' },
-        }
-      );
-
-      this.currentEntryId = response.data.id;
+      this.currentEntryId = await this.journal.start(payload);
+      recordEntryTask(this.currentEntryId, built.context.ticket_id);
       this.currentDescription = description;
-      this.updateStatusBar(`$(clock) Toggl: ${description.substring(0, 30)}...`);
+      this.entryExplanation = explanation;
+      const offline = this.currentEntryId < 0 ? ' (offline)' : '';
+      this.updateStatusBar(`$(clock) Toggl: ${description.substring(0, 30)}...${offline}`);
+      this.recordRunningEntry();
       
     } catch (error) {
       console.error('Failed to start Toggl entry:', error);
@@ -2303,8 +6636,7 @@ class TogglTracker {
   }
 
   async showStatus() {
-    const config = this.getConfig();
-    const apiToken = config.get<string>('apiToken');
+    const apiToken = getTogglToken();
 
     if (!apiToken) {
       vscode.window.showInformationMessage('Toggl: No API token configured');
@@ -2323,9 +6655,20 @@ class TogglTracker {
       if (entry) {
         const start = new Date(entry.start);
         const duration = Math.floor((Date.now() - start.getTime()) / 1000 / 60);
-        vscode.window.showInformationMessage(
-          `Toggl: Currently tracking "${entry.description}" (${duration} min)`
+        const ownEntry = entry.id === this.currentEntryId && this.entryExplanation.length > 0;
+        const action = await vscode.window.showInformationMessage(
+          `Toggl: Currently tracking "${entry.description}" (${duration} min)`,
+          'Edit Entry',
+          ...(ownEntry ? ['Why this project?'] : [])
         );
+        if (action === 'Edit Entry') {
+          await this.editCurrentEntry();
+        } else if (action === 'Why this project?') {
+          vscode.window.showInformationMessage(
+            'Why this project?',
+            { modal: true, detail: this.entryExplanation.join('\n') }
+          );
+        }
       } else {
         vscode.window.showInformationMessage('Toggl: No active time entry');
       }
@@ -2335,6 +6678,522 @@ class TogglTracker {
     }
   }
 
+  private correctionKey(branch: string, root: string | null = getWorkspaceRoot()): string {
+    return `${root || ''}::${branch}`;
+  }
+
+  private getBranchCorrection(branch: string, root: string | null = getWorkspaceRoot()): EntryCorrection | null {
+    const corrections = this.globalState.get<{ [key: string]: EntryCorrection }>(BRANCH_CORRECTIONS_KEY) || {};
+    return corrections[this.correctionKey(branch, root)] || null;
+  }
+
+  private async setBranchCorrection(branch: string, correction: EntryCorrection | null): Promise<void> {
+    const corrections = { ...(this.globalState.get<{ [key: string]: EntryCorrection }>(BRANCH_CORRECTIONS_KEY) || {}) };
+    if (correction) {
+      corrections[this.correctionKey(branch)] = correction;
+    } else {
+      delete corrections[this.correctionKey(branch)];
+    }
+    await this.globalState.update(BRANCH_CORRECTIONS_KEY, corrections);
+  }
+
+  /**
+   * Edit description, project, tags, billable flag or start time of the
+   * running entry. Everything but the start time is remembered for the
+   * branch so the next entry started for it comes out right.
+   */
+  async editCurrentEntry() {
+    if (!this.ownership.isOwner()) {
+      vscode.window.showInformationMessage('Toggl: The timer is owned by another window - edit it there');
+      return;
+    }
+    if (this.currentEntryId !== null && this.currentEntryId < 0) {
+      vscode.window.showInformationMessage('Toggl: The running entry is still waiting to sync - try again once it is online');
+      return;
+    }
+
+    const entry = await this.getCurrentTogglEntry();
+    if (!entry) {
+      vscode.window.showInformationMessage('Toggl: No active time entry');
+      return;
+    }
+
+    const projects = await fetchTogglProjects();
+    const changes: any = {};
+    const current = () => ({ ...entry, ...changes });
+    const branch = entry.id === this.currentEntryId && !this.isOnBreak ? this.currentBranch : '';
+    const existingCorrection = branch ? this.getBranchCorrection(branch) : null;
+
+    while (true) {
+      const value = current();
+      const projectName = value.project_id ? projects.get(value.project_id) || `Project ${value.project_id}` : '(none)';
+      const items: (vscode.QuickPickItem & { field: string })[] = [
+        { label: '$(edit) Description', description: value.description || '', field: 'description' },
+        { label: '$(project) Project', description: projectName, field: 'project' },
+        { label: '$(tag) Tags', description: (value.tags || []).join(', ') || '(none)', field: 'tags' },
+        { label: '$(credit-card) Billable', description: value.billable ? 'Yes' : 'No', field: 'billable' },
+        { label: '$(clock) Start time', description: new Date(value.start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }), field: 'start' },
+      ];
+      if (Object.keys(changes).length > 0) {
+        items.push({ label: '$(check) Save changes', description: branch ? `also used for future entries on ${branch}` : '', field: 'save' });
+      }
+      if (existingCorrection) {
+        items.push({ label: '$(discard) Forget saved correction', description: `for ${branch}`, field: 'forget' });
+      }
+
+      const pick = await vscode.window.showQuickPick(items, {
+        title: 'Edit Current Toggl Entry',
+        placeHolder: 'Choose a field to change',
+        ignoreFocusOut: true,
+      });
+      if (!pick) return;
+
+      if (pick.field === 'description') {
+        const description = await vscode.window.showInputBox({ prompt: 'Description', value: value.description || '' });
+        if (description !== undefined) changes.description = description;
+      } else if (pick.field === 'project') {
+        const projectPick = await vscode.window.showQuickPick(
+          [{ label: '(no project)', id: null as number | null }, ...Array.from(projects.entries()).map(([id, name]) => ({ label: name, id: id as number | null }))],
+          { placeHolder: 'Project' }
+        );
+        if (projectPick) changes.project_id = projectPick.id;
+      } else if (pick.field === 'tags') {
+        const selected: string[] = value.tags || [];
+        const available = Array.from(new Set([...(await fetchTogglTags()), ...selected])).sort();
+        const tagPicks = await vscode.window.showQuickPick(
+          available.map(tag => ({ label: tag, picked: selected.includes(tag) })),
+          { placeHolder: 'Tags', canPickMany: true }
+        );
+        if (tagPicks) changes.tags = tagPicks.map(t => t.label);
+      } else if (pick.field === 'billable') {
+        const billablePick = await vscode.window.showQuickPick(['Yes', 'No'], { placeHolder: 'Billable?' });
+        if (billablePick) changes.billable = billablePick === 'Yes';
+      } else if (pick.field === 'start') {
+        const start = await vscode.window.showInputBox({
+          prompt: 'Start time today (HH:MM)',
+          value: new Date(value.start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false }),
+          validateInput: input => {
+            const match = input.trim().match(/^(\d{1,2}):(\d{2})$/);
+            if (!match) return 'Use HH:MM';
+            const at = new Date();
+            at.setHours(Number(match[1]), Number(match[2]), 0, 0);
+            return at.getTime() > Date.now() ? 'Start time cannot be in the future' : null;
+          },
+        });
+        if (start) {
+          const minutes = parseClock(start.trim());
+          const at = new Date();
+          at.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+          changes.start = at.toISOString();
+        }
+      } else if (pick.field === 'forget') {
+        await this.setBranchCorrection(branch, null);
+        vscode.window.showInformationMessage(`Toggl: Forgot the saved correction for ${branch}`);
+        return;
+      } else if (pick.field === 'save') {
+        break;
+      }
+    }
+
+    try {
+      // Running entries keep running: the v9 API wants duration -1 alongside a new start
+      await this.journal.update(entry.id, changes.start ? { ...changes, duration: -1 } : changes);
+    } catch (error: any) {
+      const msg = error?.response?.data || error?.message || 'Unknown error';
+      vscode.window.showErrorMessage(`Toggl: Failed to update entry - ${msg}`);
+      return;
+    }
+
+    if (changes.description !== undefined && entry.id === this.currentEntryId) {
+      this.currentDescription = changes.description;
+      this.updateStatusBar(`$(clock) Toggl: ${this.currentDescription.substring(0, 30)}...`);
+      this.recordRunningEntry();
+    }
+
+    if (branch) {
+      const correction: EntryCorrection = { ...(existingCorrection || {}) };
+      if (changes.description !== undefined) correction.description = changes.description;
+      if (changes.project_id !== undefined) correction.projectId = changes.project_id;
+      if (changes.tags !== undefined) correction.tags = changes.tags;
+      if (changes.billable !== undefined) correction.billable = changes.billable;
+      await this.setBranchCorrection(branch, correction);
+      vscode.window.showInformationMessage(`Toggl: Entry updated. Future entries on ${branch} will use the same values.`);
+    } else {
+      vscode.window.showInformationMessage('Toggl: Entry updated');
+    }
+  }
+
+  /**
+   * Propose entries for a day from git reflog checkouts and commit times,
+   * let the user edit them as text, then create the ones that are left.
+   */
+  async reconstructFromGit() {
+    const config = this.getConfig();
+    const workspaceId = config.get<number>('workspaceId');
+    if (!getTogglToken() || !workspaceId) {
+      vscode.window.showErrorMessage('Toggl: Not configured');
+      return;
+    }
+
+    const day = await pickReconstructDay();
+    if (!day) return;
+    const dayEnd = addDays(day, 1);
+
+    const roots = await getWorkspaceRepositoryRoots();
+    if (roots.length === 0) {
+      vscode.window.showWarningMessage('Toggl: No git repositories in this workspace');
+      return;
+    }
+
+    const built = new Map<string, { description: string; context: EntryTemplateContext }>();
+    const blocks = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Toggl: Reading git history...' },
+      async () => {
+        const events = (await Promise.all(roots.map(root => readGitActivity(root, day, dayEnd)))).flat();
+        const existing = await loadReportEntries(day, dayEnd);
+        const timeline = buildReconstructedTimeline(events, day, dayEnd, existing);
+        for (const block of timeline) {
+          const key = `${block.root}::${block.branch}`;
+          if (!built.has(key)) {
+            const entry = await this.buildEntryDescription(block.branch, block.root);
+            const correction = this.getBranchCorrection(block.branch, block.root);
+            built.set(key, { ...entry, description: correction?.description || entry.description });
+          }
+        }
+        return timeline;
+      }
+    );
+    if (blocks.length === 0) {
+      vscode.window.showInformationMessage(`Toggl: No untracked git activity found for ${day.toLocaleDateString()}`);
+      return;
+    }
+
+    // Repos are referred to by folder name in the preview
+    const rootsByName = new Map(roots.map(root => [path.basename(root), root]));
+    const clock = (d: Date) => d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+    const preview = [
+      `# Time reconstructed from git for ${day.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}`,
+      '# Edit times or descriptions, delete lines you do not want, then click "Create Entries".',
+      '# Format: HH:MM-HH:MM | description | repo:branch',
+      '',
+      ...blocks.map(b =>
+        `${clock(b.start)}-${clock(b.end)} | ${built.get(`${b.root}::${b.branch}`)!.description} | ${path.basename(b.root)}:${b.branch}`
+      ),
+      '',
+    ].join('\n');
+    const doc = await vscode.workspace.openTextDocument({ content: preview, language: 'plaintext' });
+    await vscode.window.showTextDocument(doc, { preview: false });
+
+    const action = await vscode.window.showInformationMessage(
+      `Toggl: ${blocks.length} proposed entries for ${day.toLocaleDateString()}. Edit the preview, then create them.`,
+      'Create Entries',
+      'Cancel'
+    );
+    if (action !== 'Create Entries') return;
+
+    const atClock = (value: string) => {
+      const minutes = parseClock(value);
+      const at = new Date(day);
+      at.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+      return at;
+    };
+    let created = 0;
+    let skipped = 0;
+    for (const line of doc.getText().split('\n')) {
+      if (!line.trim() || line.trim().startsWith('#')) continue;
+      const match = line.match(/^\s*(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})\s*\|\s*(.+?)\s*(?:\|\s*([^:|]*):(.*?))?\s*$/);
+      const start = match ? atClock(match[1]) : null;
+      const end = match ? atClock(match[2]) : null;
+      if (!match || !start || !end || end <= start) {
+        logError(`Skipping unreadable reconstruction line: ${line}`);
+        skipped++;
+        continue;
+      }
+
+      const description = match[3];
+      const root = (match[4] && rootsByName.get(match[4].trim())) || getWorkspaceRoot();
+      const branch = (match[5] || '').trim();
+      const context = branch ? (built.get(`${root}::${branch}`) || await this.buildEntryDescription(branch, root)).context : null;
+      const previousEntry = await this.getPreviousEntry(description);
+      const fields = context
+        ? this.resolveEntryFields(branch, context, previousEntry, root)
+        : { projectId: previousEntry?.project_id || 0, tags: previousEntry?.tags || [], billable: config.get<boolean>('billable') ?? true };
+
+      const payload: any = {
+        description,
+        workspace_id: workspaceId,
+        start: start.toISOString(),
+        stop: end.toISOString(),
+        duration: Math.round((end.getTime() - start.getTime()) / 1000),
+        created_with: 'toggl-track-vscode',
+        billable: fields.billable,
+      };
+      if (fields.projectId > 0) payload.project_id = fields.projectId;
+      if (fields.tags.length > 0) payload.tags = fields.tags;
+
+      try {
+        recordEntryTask(await this.journal.start(payload), context?.ticket_id);
+        created++;
+      } catch (error) {
+        logError('Failed to create reconstructed entry:', error);
+        skipped++;
+      }
+    }
+
+    const summary = `Toggl: Created ${created} entr${created === 1 ? 'y' : 'ies'}`;
+    if (skipped) {
+      showMessageWithLog('warning', `${summary}, skipped ${skipped} (see output log)`);
+    } else {
+      vscode.window.showInformationMessage(summary);
+    }
+  }
+
+  /**
+   * Tidy today's stopped entries: absorb or drop entries shorter than
+   * `minEntrySeconds`, then merge neighbours with the same description and
+   * project that are at most `mergeGapSeconds` apart. Only entries this
+   * extension created are touched, and only joined with entries of the same
+   * project and billable flag; the rest just count as neighbours. Every change
+   * is logged.
+   */
+  compactEntries(interactive: boolean = false): Promise<void> {
+    // Queued behind the stop/start and the duration policy pass, so the two never edit the same entries at once
+    this.branchCheck = this.branchCheck
+      .then(() => this.compactEntriesNow(interactive))
+      .catch(error => console.error('Toggl: merging entries failed:', error));
+    return this.branchCheck;
+  }
+
+  private async compactEntriesNow(interactive: boolean) {
+    const config = this.getConfig();
+    const minSeconds = config.get<number>('minEntrySeconds') ?? 60;
+    const gapMs = (config.get<number>('mergeGapSeconds') ?? 120) * 1000;
+    const shortHandling = config.get<string>('shortEntryHandling') || 'absorb';
+
+    let entries: ReportEntry[];
+    try {
+      const today = startOfDay(new Date());
+      entries = (await loadReportEntries(today, addDays(today, 1))).filter(e => !e.running && e.id > 0);
+    } catch (error) {
+      console.error('Toggl: could not load entries to merge:', error);
+      return;
+    }
+
+    const setRange = async (entry: ReportEntry, start: Date, end: Date) => {
+      entry.start = start;
+      entry.end = end;
+      entry.seconds = Math.round((end.getTime() - start.getTime()) / 1000);
+      await this.journal.update(entry.id, { start: start.toISOString(), stop: end.toISOString(), duration: entry.seconds });
+    };
+    const label = (entry: ReportEntry) => `"${entry.description}" (${entry.seconds}s)`;
+    const ours = (entry: ReportEntry) => this.isCreatedEntry(entry.id);
+    const joinable = (a: ReportEntry | undefined, b: ReportEntry): a is ReportEntry =>
+      !!a && ours(a) && ours(b) && a.projectId === b.projectId && a.billable === b.billable;
+    let changes = 0;
+
+    try {
+      if (shortHandling !== 'off') {
+        for (let i = 0; i < entries.length; i++) {
+          const entry = entries[i];
+          if (entry.seconds >= minSeconds || !ours(entry)) continue;
+          const previous = entries[i - 1];
+          const next = entries[i + 1];
+
+          if (shortHandling === 'absorb' && joinable(previous, entry) && entry.start.getTime() - previous.end.getTime() <= gapMs) {
+            log(`absorbed short entry ${label(entry)} into previous entry "${previous.description}"`);
+            await setRange(previous, previous.start, entry.end);
+          } else if (shortHandling === 'absorb' && joinable(next, entry) && next.start.getTime() - entry.end.getTime() <= gapMs) {
+            log(`absorbed short entry ${label(entry)} into next entry "${next.description}"`);
+            await setRange(next, entry.start, next.end);
+          } else if (shortHandling === 'drop') {
+            log(`dropped short entry ${label(entry)}`);
+          } else {
+            continue; // Nothing adjacent to absorb it into
+          }
+          await this.journal.remove(entry.id);
+          entries.splice(i, 1);
+          i--;
+          changes++;
+        }
+      }
+
+      for (let i = 1; i < entries.length; i++) {
+        const previous = entries[i - 1];
+        const entry = entries[i];
+        if (entry.description !== previous.description || !joinable(previous, entry)) continue;
+        if (entry.start.getTime() - previous.end.getTime() > gapMs) continue;
+
+        log(`merged ${label(entry)} into the preceding entry with the same description`);
+        await setRange(previous, previous.start, entry.end);
+        await this.journal.remove(entry.id);
+        entries.splice(i, 1);
+        i--;
+        changes++;
+      }
+    } catch (error) {
+      logError('Merging entries failed:', error);
+    }
+
+    if (interactive && changes > 0) {
+      showMessageWithLog('info', `Toggl: Cleaned up ${changes} entr${changes === 1 ? 'y' : 'ies'} (details in the output log)`);
+    } else if (interactive) {
+      vscode.window.showInformationMessage('Toggl: Nothing to merge today');
+    }
+  }
+
+  private async applyNormalization(change: EntryNormalization) {
+    const workspaceId = this.getConfig().get<number>('workspaceId');
+    const { entry } = change;
+    const [first, ...rest] = change.parts;
+    await this.journal.update(entry.id, {
+      start: first.start.toISOString(),
+      stop: first.end.toISOString(),
+      duration: Math.round((first.end.getTime() - first.start.getTime()) / 1000),
+    });
+    for (const part of rest) {
+      const payload: any = {
+        description: entry.description,
+        workspace_id: workspaceId,
+        start: part.start.toISOString(),
+        stop: part.end.toISOString(),
+        duration: Math.round((part.end.getTime() - part.start.getTime()) / 1000),
+        created_with: 'toggl-track-vscode',
+        billable: entry.billable,
+      };
+      if (entry.projectId) payload.project_id = entry.projectId;
+      if (entry.tags.length > 0) payload.tags = entry.tags;
+      recordEntryTask(await this.journal.start(payload), entry.taskId);
+    }
+    if (change.shiftNext) {
+      const { entry: next, start } = change.shiftNext;
+      await this.journal.update(next.id, {
+        start: start.toISOString(),
+        stop: next.end.toISOString(),
+        duration: Math.round((next.end.getTime() - start.getTime()) / 1000),
+      });
+    }
+    log(`applied duration policy to "${entry.description}":\n${describeNormalization(change).join('\n')}`);
+  }
+
+  /** Apply duration policies to an entry `stopCurrentEntry` just stopped. */
+  private normalizeStoppedEntry(entryId: number, confirmed: boolean = false): Promise<void> {
+    this.branchCheck = this.branchCheck
+      .then(() => this.normalizeStoppedEntryNow(entryId, confirmed))
+      .catch(error => console.error('Toggl: duration policy failed:', error));
+    return this.branchCheck;
+  }
+
+  private async normalizeStoppedEntryNow(entryId: number, confirmed: boolean) {
+    const trigger = this.getConfig().get<string>('durationPolicyTrigger') || 'manual';
+    if (trigger === 'manual') return;
+
+    const today = startOfDay(new Date());
+    const entries = await loadReportEntries(addDays(today, -1), addDays(today, 1));
+    const entry = entries.find(e => e.id === entryId);
+    const change = entry ? normalizeEntry(entry, nextEntry(entries, entry)) : null;
+    if (!change) return;
+
+    if (trigger === 'stopPreview' && !confirmed) {
+      // Not awaited: the queue must not wait on the user; "Apply" recomputes against the entries as they are then
+      const after = change.parts.reduce((sum, p) => sum + (p.end.getTime() - p.start.getTime()) / 1000, 0);
+      vscode.window.showInformationMessage(
+        `Toggl: Apply duration policy to "${change.entry.description}"? ${formatDuration(change.entry.seconds)} → ${formatDuration(after)}` +
+          (change.parts.length > 1 ? `, split into ${change.parts.length} entries at midnight` : '') +
+          (describeNextEntryEffect(change) ? ` (${describeNextEntryEffect(change)})` : ''),
+        'Apply',
+        'Skip'
+      ).then(action => {
+        if (action === 'Apply') this.normalizeStoppedEntry(entryId, true);
+      });
+      return;
+    }
+    await this.applyNormalization(change);
+  }
+
+  /**
+   * Batch-apply duration policies to today's stopped entries, after showing
+   * the changes as a diff.
+   */
+  async normalizeToday() {
+    if (!(this.getConfig().get<DurationPolicy[]>('durationPolicies') || []).length) {
+      const action = await vscode.window.showWarningMessage('Toggl: No duration policies configured', 'Open Settings');
+      if (action === 'Open Settings') {
+        vscode.commands.executeCommand('workbench.action.openSettingsJson');
+      }
+      return;
+    }
+
+    const today = startOfDay(new Date());
+    let changes: EntryNormalization[];
+    try {
+      const entries = await loadReportEntries(addDays(today, -1), addDays(today, 1));
+      changes = [];
+      // In order, so an entry pushed back by its predecessor's round-up is normalized from its new start
+      for (let i = 0; i < entries.length; i++) {
+        const shifted = changes.find(c => c.shiftNext?.entry === entries[i])?.shiftNext;
+        if (shifted) {
+          entries[i] = { ...entries[i], start: shifted.start, seconds: Math.round((entries[i].end.getTime() - shifted.start.getTime()) / 1000) };
+        }
+        if (entries[i].end <= today) continue;
+        const change = normalizeEntry(entries[i], entries[i + 1] || null);
+        if (change) changes.push(change);
+      }
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Toggl: Failed to load today's entries - ${error.message || error}`);
+      return;
+    }
+    if (changes.length === 0) {
+      vscode.window.showInformationMessage("Toggl: Today's entries already follow the duration policies");
+      return;
+    }
+
+    const preview = [
+      `# Duration policies for ${today.toLocaleDateString()} (breaks and the running entry are left alone)`,
+      '',
+      ...changes.flatMap(change => [...describeNormalization(change), '']),
+    ].join('\n');
+    const doc = await vscode.workspace.openTextDocument({ content: preview, language: 'diff' });
+    await vscode.window.showTextDocument(doc, { preview: true });
+
+    const confirm = await vscode.window.showInformationMessage(
+      `Apply duration policies to ${changes.length} entr${changes.length === 1 ? 'y' : 'ies'}?`,
+      { modal: true },
+      'Apply'
+    );
+    if (confirm !== 'Apply') return;
+
+    let failed = 0;
+    for (const change of changes) {
+      try {
+        await this.applyNormalization(change);
+      } catch (error) {
+        failed++;
+        console.error(`Failed to normalize "${change.entry.description}":`, error);
+      }
+    }
+    vscode.window.showInformationMessage(
+      `Toggl: Normalized ${changes.length - failed} entr${changes.length - failed === 1 ? 'y' : 'ies'}` + (failed ? `, ${failed} failed` : '')
+    );
+  }
+
+  async editRules() {
+    const target = await vscode.window.showQuickPick(
+      [
+        { label: 'Workspace rules', description: '.vscode/toggl-rules.json', file: getWorkspaceRulesFilePath() },
+        { label: 'User rules', description: 'Applies to every workspace', file: this.userRulesPath },
+      ].filter(item => item.file),
+      { placeHolder: 'Which rules file do you want to edit?' }
+    );
+    if (!target?.file) return;
+
+    if (!fs.existsSync(target.file)) {
+      fs.mkdirSync(path.dirname(target.file), { recursive: true });
+      fs.writeFileSync(target.file, JSON.stringify(ENTRY_RULES_TEMPLATE, null, 2) + '\n');
+    }
+    const doc = await vscode.workspace.openTextDocument(target.file);
+    await vscode.window.showTextDocument(doc);
+  }
+
   async toggleBreak() {
     if (this.isOnBreak) {
       await this.endBreak();
@@ -2345,7 +7204,7 @@ class TogglTracker {
 
   async startBreak() {
     const config = this.getConfig();
-    const apiToken = config.get<string>('apiToken');
+    const apiToken = getTogglToken();
     const workspaceId = config.get<number>('workspaceId');
 
     if (!apiToken || !workspaceId) {
@@ -2355,7 +7214,7 @@ class TogglTracker {
 
     // Ask what kind of break
     const breakType = await vscode.window.showQuickPick(
-      ['☕ Coffee Break', '🍽️ Lunch Break', '🚶 Short Break'],
+      BREAK_TYPES,
       { placeHolder: 'Select break type' }
     );
 
@@ -2372,23 +7231,16 @@ class TogglTracker {
     // Start break entry
     const breakDescription = breakType.replace(/^[^\s]+\s/, ''); // Remove emoji
     try {
-      const response = await axios.post(
-        `https://api.track.toggl.com/api/v9/workspaces/${workspaceId}/time_entries`,
-        {
-          description: breakDescription,
-          workspace_id: workspaceId,
-          start: new Date().toISOString(),
-          duration: -1,
-          created_with: 'toggl-track-vscode',
-          billable: false, // Breaks are not billable
-        },
-        {
-          auth: { username: apiToken, password: 'api_token' },
-        }
-      );
-
-      this.currentEntryId = response.data.id;
+      this.currentEntryId = await this.journal.start({
+        description: breakDescription,
+        workspace_id: workspaceId,
+        start: new Date().toISOString(),
+        duration: -1,
+        created_with: 'toggl-track-vscode',
+        billable: false, // Breaks are not billable
+      });
       this.currentDescription = breakDescription;
+      this.recordRunningEntry();
       this.isOnBreak = true;
       this.isTracking = false; // Pause auto-tracking during break
       
@@ -2404,7 +7256,7 @@ class TogglTracker {
 
   async endBreak() {
     const config = this.getConfig();
-    const apiToken = config.get<string>('apiToken');
+    const apiToken = getTogglToken();
     const workspaceId = config.get<number>('workspaceId');
 
     if (!apiToken || !workspaceId) return;
@@ -2442,11 +7294,23 @@ class TogglTracker {
       clearInterval(this.idleCheckInterval);
       this.idleCheckInterval = null;
     }
+    if (this.externalSyncInterval) {
+      clearInterval(this.externalSyncInterval);
+      this.externalSyncInterval = null;
+    }
+    if (this.scheduleInterval) {
+      clearInterval(this.scheduleInterval);
+      this.scheduleInterval = null;
+    }
+    this.clearPendingSwitch();
     // Fire the stop request (don't await - extension may close before it completes)
     this.stopCurrentEntry().catch(() => {});
+    this.journal.dispose();
+    this.ownership.dispose();
     this.statusBarItem.dispose();
     this.newBranchStatusBarItem.dispose();
     this.breakStatusBarItem.dispose();
+    this.syncStatusBarItem.dispose();
   }
 }
 
@@ -2524,7 +7388,49 @@ async function checkForUpdates(context: vscode.ExtensionContext) {
 }
 
 export async function activate(context: vscode.ExtensionContext) {
-  tracker = new TogglTracker();
+  outputChannel = vscode.window.createOutputChannel('Toggl Track Auto');
+  context.subscriptions.push(outputChannel);
+  entryTaskStore = context.globalState;
+
+  // Tokens must be loaded (and migrated out of settings) before anything calls an API
+  await initTokenStorage(context);
+
+  // Resolve the repository to track before anything reads getWorkspaceRoot()
+  activeRepository = new ActiveRepositoryTracker();
+  await activeRepository.initialize();
+  context.subscriptions.push(activeRepository);
+
+  tracker = new TogglTracker(context);
+
+  const timelineProvider = new TogglTimelineProvider(tracker.journal, tracker);
+  context.subscriptions.push(
+    timelineProvider,
+    vscode.window.registerTreeDataProvider(TogglTimelineProvider.viewType, timelineProvider),
+    vscode.commands.registerCommand('toggl-track-auto.timeline.refresh', () => timelineProvider.refresh()),
+    vscode.commands.registerCommand('toggl-track-auto.timeline.continue', (item?: TimelineItem) => timelineProvider.continueEntry(item)),
+    vscode.commands.registerCommand('toggl-track-auto.timeline.split', (item?: TimelineItem) => timelineProvider.splitEntry(item)),
+    vscode.commands.registerCommand('toggl-track-auto.timeline.reassign', (item?: TimelineItem) => timelineProvider.reassignEntry(item)),
+    vscode.commands.registerCommand('toggl-track-auto.timeline.changeProject', (item?: TimelineItem) => timelineProvider.changeProject(item)),
+    vscode.commands.registerCommand('toggl-track-auto.timeline.delete', (item?: TimelineItem) => timelineProvider.deleteEntry(item)),
+  );
+
+  const mondayTimeSync = new MondayTimeSync(context.globalState, () => tracker.isTimerOwner());
+  const mondayCommitQueue = new MondayCommitQueue(context.globalState);
+  hookScriptSource = path.join(context.extensionPath, 'out', 'gitHook.js');
+  refreshGitHooks();
+  context.subscriptions.push(
+    mondayTimeSync,
+    mondayCommitQueue,
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('togglTrackAuto.mondayTimeColumn') || e.affectsConfiguration('togglTrackAuto.mondayTimeSyncIntervalMinutes')) {
+        mondayTimeSync.schedule();
+      }
+      // The hooks can't read settings, so push the ones they use
+      if (e.affectsConfiguration('togglTrackAuto.branchPattern') || e.affectsConfiguration('togglTrackAuto.mondayBoardId')) {
+        refreshGitHooks();
+      }
+    })
+  );
 
   // ========== Monday.com Sidebar (only when enabled) ==========
   const mondayEnabled = isMondayEnabled();
@@ -2547,8 +7453,14 @@ export async function activate(context: vscode.ExtensionContext) {
       setTimeout(() => mondaySidebarController!.forceRefresh(), 1500);
     });
 
-    setTimeout(() => mondaySidebarController!.forceRefresh(), 3000);
-    setTimeout(() => mondaySidebarController!.forceRefresh(), 8000);
+    // Keep today's and this week's totals moving while the timer runs (in the window running it)
+    const timeRefresh = setInterval(() => {
+      if (tracker.isTimerOwner()) {
+        taskTimeCache.clear();
+        mondaySidebarController!.refreshTime();
+      }
+    }, TASK_TIME_CACHE_MS);
+    context.subscriptions.push({ dispose: () => clearInterval(timeRefresh) });
   }
 
   // Control sidebar visibility based on Monday enabled state
@@ -2571,8 +7483,18 @@ export async function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand('toggl-track-auto.stop', () => tracker.stop()),
     vscode.commands.registerCommand('toggl-track-auto.status', () => tracker.showStatus()),
     vscode.commands.registerCommand('toggl-track-auto.toggleBreak', () => tracker.toggleBreak()),
+    vscode.commands.registerCommand('toggl-track-auto.syncNow', () => tracker.syncNow()),
+    vscode.commands.registerCommand('toggl-track-auto.editRules', () => tracker.editRules()),
+    vscode.commands.registerCommand('toggl-track-auto.resumeAuto', () => tracker.resumeAutoTracking()),
+    vscode.commands.registerCommand('toggl-track-auto.trackOffHours', () => tracker.trackOutsideWorkingHours()),
+    vscode.commands.registerCommand('toggl-track-auto.editEntry', () => tracker.editCurrentEntry()),
+    vscode.commands.registerCommand('toggl-track-auto.reconstructFromGit', () => tracker.reconstructFromGit()),
+    vscode.commands.registerCommand('toggl-track-auto.compactEntries', () => tracker.compactEntries(true)),
+    vscode.commands.registerCommand('toggl-track-auto.normalizeToday', () => tracker.normalizeToday()),
+    vscode.commands.registerCommand('toggl-track-auto.showReport', () => TimeReportPanel.show()),
+    vscode.commands.registerCommand('toggl-track-auto.exportTimesheet', () => exportTimesheet()),
     vscode.commands.registerCommand('toggl-track-auto.setup', async () => {
-      const success = await runSetupWizard();
+      const success = await runSetupWizard(true);
       if (success) {
         tracker.start();
       }
@@ -2587,9 +7509,18 @@ export async function activate(context: vscode.ExtensionContext) {
         });
       }
     }),
+    vscode.commands.registerCommand('toggl-track-auto.manageTokens', () => manageApiTokens()),
     // Monday.com integration commands (guarded)
     vscode.commands.registerCommand('toggl-track-auto.createBranchFromTask', requireMonday(() => createBranchFromTask())),
     vscode.commands.registerCommand('toggl-track-auto.copyMondayTaskLink', requireMonday(() => copyMondayTaskLink())),
+    vscode.commands.registerCommand('toggl-track-auto.gitHookStatus', () => showGitHookStatus()),
+    vscode.commands.registerCommand('toggl-track-auto.postCommitNotes', requireMonday(async () => {
+      const posted = await mondayCommitQueue.flush(true);
+      vscode.window.showInformationMessage(posted > 0
+        ? `Toggl: Posted ${posted} commit update${posted === 1 ? '' : 's'} to Monday`
+        : 'Toggl: No queued commits to post');
+    })),
+    vscode.commands.registerCommand('toggl-track-auto.syncMondayTime', requireMonday(() => mondayTimeSync.sync(true))),
     vscode.commands.registerCommand('toggl-track-auto.openUpdate', async (text: string) => {
       const doc = await vscode.workspace.openTextDocument({ content: text, language: 'markdown' });
       await vscode.window.showTextDocument(doc, { preview: true, viewColumn: vscode.ViewColumn.Beside });
@@ -2612,7 +7543,7 @@ export async function activate(context: vscode.ExtensionContext) {
         `Root: ${root || 'NOT FOUND'}`,
         `Branch: ${branch || 'NOT FOUND'}`,
         `Task ID: ${taskId || 'NOT FOUND'}`,
-        `Monday Token: ${token ? 'SET (' + token.substring(0, 20) + '...)' : 'NOT SET'}`,
+        `Monday Token: ${token ? 'SET' : 'NOT SET'}`,
       ].join(' | ');
       vscode.window.showInformationMessage(`Monday refresh: ${debugInfo}`);
     })),
@@ -2648,7 +7579,8 @@ export async function activate(context: vscode.ExtensionContext) {
       }
 
       const mappings = readBranchTaskMappings();
-      mappings[branch] = { taskId };
+      const boardId = getMondayBoardId();
+      mappings[branch] = { taskId, taskName: '', boardId, url: getMondayTaskUrl(boardId, taskId) };
       writeBranchTaskMappings(mappings);
 
       vscode.window.showInformationMessage(`Branch "${branch}" now mapped to Monday task ${taskId}`);
@@ -2661,8 +7593,7 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(tracker);
 
   // Check if setup is needed
-  const config = vscode.workspace.getConfiguration('togglTrackAuto');
-  if (!config.get<string>('apiToken')) {
+  if (!getTogglToken()) {
     const success = await runSetupWizard();
     if (success) {
       tracker.start();
@@ -2671,13 +7602,19 @@ export async function activate(context: vscode.ExtensionContext) {
     tracker.start();
   }
 
-  // On startup, check Monday hooks and sidebar only if enabled
-  if (mondayEnabled) {
-    setTimeout(async () => {
-      checkBranchForMondayLink();
-      if (mondaySidebarController) mondaySidebarController.update();
-    }, 3000);
-  }
+  // Checkouts drive the timer, sidebar, context files and hooks together
+  const branchWatcher = new BranchWatcher();
+  context.subscriptions.push(branchWatcher);
+  branchWatcher.onDidChangeBranch(async () => {
+    await tracker.onBranchChanged();
+    if (mondaySidebarController) mondaySidebarController.update();
+    if (isMondayEnabled()) checkBranchForMondayLink();
+  });
+  activeRepository.onDidChange(async () => {
+    await tracker.onRepositoryChanged();
+    await branchWatcher.retarget();
+  });
+  await branchWatcher.initialize();
 }
 
 export function deactivate() {
@@ -0,0 +1,164 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { execFileSync } from 'child_process';
+import {
+  DEFAULT_BRANCH_PATTERN,
+  DEFAULT_MONDAY_BOARD_ID,
+  HOOK_CONFIG_FILE,
+  HookConfig,
+  MONDAY_COMMIT_QUEUE_FILE,
+  QueuedCommit,
+  QueuedEvent,
+  QueuedPush,
+  getMondayTaskUrl,
+  readBranchTaskMappingsFile,
+  resolveTaskId,
+} from './taskResolver';
+
+// Git hook entry point, copied by the extension into <git common dir>/toggl-track-auto/
+// and run by the generated hook stubs as `node hook.js <hook name> [git args...]`.
+// Hooks must never block a commit or push: every failure ends in a silent exit 0.
+
+function git(...args: string[]): string {
+  try {
+    return execFileSync('git', args, { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+  } catch {
+    return '';
+  }
+}
+
+function readHookConfig(): HookConfig {
+  try {
+    const saved = JSON.parse(fs.readFileSync(path.join(__dirname, HOOK_CONFIG_FILE), 'utf-8'));
+    return {
+      branchPattern: saved.branchPattern || DEFAULT_BRANCH_PATTERN,
+      boardId: saved.boardId || DEFAULT_MONDAY_BOARD_ID,
+    };
+  } catch {
+    return { branchPattern: DEFAULT_BRANCH_PATTERN, boardId: DEFAULT_MONDAY_BOARD_ID };
+  }
+}
+
+function resolveBranchTask(config: HookConfig, branch: string): { taskId: string; url: string } | null {
+  const root = git('rev-parse', '--show-toplevel');
+  const mappings = root ? readBranchTaskMappingsFile(root) : {};
+  const taskId = resolveTaskId(branch, mappings, config.branchPattern);
+  if (!taskId) return null;
+  return { taskId, url: mappings[branch]?.url || getMondayTaskUrl(config.boardId, taskId) };
+}
+
+/** Task for the checked-out branch, resolved exactly like the extension does. */
+function resolveCurrentTask(config: HookConfig): { taskId: string; url: string } | null {
+  const branch = git('symbolic-ref', '--short', 'HEAD');
+  return branch ? resolveBranchTask(config, branch) : null;
+}
+
+function queueEvent(event: QueuedEvent) {
+  // The extension posts these (there is no token on disk), now or when VS Code next runs
+  fs.appendFileSync(path.join(__dirname, '..', MONDAY_COMMIT_QUEUE_FILE), JSON.stringify(event) + '\n');
+}
+
+function prepareCommitMsg(config: HookConfig, messageFile: string, source: string) {
+  // Skip merge commits and squash commits
+  if (!messageFile || source === 'merge' || source === 'squash') return;
+  const task = resolveCurrentTask(config);
+  if (!task) return;
+
+  const message = fs.readFileSync(messageFile, 'utf-8');
+  if (message.includes('Monday task:')) return;
+  fs.writeFileSync(messageFile, `${message.replace(/\n*$/, '\n')}\nMonday task: ${task.url}\n`);
+}
+
+function postCommit(config: HookConfig) {
+  const branch = git('symbolic-ref', '--short', 'HEAD');
+  const task = branch ? resolveBranchTask(config, branch) : null;
+  if (!task) return;
+
+  // Nothing is posted per commit: commits wait for the push (or "Post Commit Notes")
+  const commit: QueuedCommit = {
+    type: 'commit',
+    taskId: task.taskId,
+    branch,
+    hash: git('rev-parse', 'HEAD'),
+    committedAt: Date.now(),
+  };
+  queueEvent(commit);
+}
+
+const ZERO_SHA = /^0+$/;
+
+export interface PushedBranch {
+  branch: string;
+  localSha: string;
+  // Branch name on the remote, usually the same
+  remoteBranch: string;
+  // Null for a new branch
+  remoteSha: string | null;
+}
+
+/** Branches in pre-push's stdin (`<local ref> <local sha> <remote ref> <remote sha>` lines); deletions and tags are skipped. */
+export function parsePrePushInput(input: string): PushedBranch[] {
+  const branches: PushedBranch[] = [];
+  for (const line of input.split('\n')) {
+    const [localRef, localSha, remoteRef, remoteSha] = line.trim().split(/\s+/);
+    if (!localRef?.startsWith('refs/heads/') || !localSha || ZERO_SHA.test(localSha)) continue;
+    const branch = localRef.slice('refs/heads/'.length);
+    branches.push({
+      branch,
+      localSha,
+      remoteBranch: remoteRef?.startsWith('refs/heads/') ? remoteRef.slice('refs/heads/'.length) : branch,
+      remoteSha: remoteSha && !ZERO_SHA.test(remoteSha) ? remoteSha : null,
+    });
+  }
+  return branches;
+}
+
+/**
+ * `git rev-list` arguments for the commits a push sends: those on no remote
+ * yet (which leaves out everything merged in from main) and not behind the
+ * remote tip, without merge commits.
+ */
+export function prePushRevListArgs(localSha: string, knownRemoteSha: string | null): string[] {
+  return ['rev-list', '--reverse', '--no-merges', localSha, '--not', '--remotes', ...(knownRemoteSha ? [knownRemoteSha] : [])];
+}
+
+/** Record the final commits each pushed branch sends to `remote`. */
+function prePush(config: HookConfig, remote: string) {
+  for (const { branch, localSha, remoteBranch, remoteSha } of parsePrePushInput(fs.readFileSync(0, 'utf-8'))) {
+    const task = resolveBranchTask(config, branch);
+    if (!task) continue;
+
+    const remoteKnown = !!remoteSha && git('cat-file', '-t', remoteSha) === 'commit';
+    const commits = git(...prePushRevListArgs(localSha, remoteKnown ? remoteSha : null)).split('\n').filter(hash => hash);
+    if (commits.length === 0) continue;
+
+    const push: QueuedPush = {
+      type: 'push',
+      taskId: task.taskId,
+      branch,
+      head: localSha,
+      remote,
+      remoteBranch,
+      commits,
+      pushedAt: Date.now(),
+    };
+    queueEvent(push);
+  }
+}
+
+async function main() {
+  const [hook, ...args] = process.argv.slice(2);
+  const config = readHookConfig();
+  if (hook === 'prepare-commit-msg') {
+    prepareCommitMsg(config, args[0], args[1]);
+  } else if (hook === 'post-commit') {
+    postCommit(config);
+  } else if (hook === 'pre-push') {
+    prePush(config, args[0] || '');
+  }
+}
+
+// Imported by the tests; only a hook run does anything
+if (require.main === module) {
+  main().catch(() => {}).finally(() => process.exit(0));
+}
@@ -0,0 +1,99 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+// Branch → Monday task resolution shared by the extension and the git hooks.
+// No `vscode` import here: the hooks run this code under plain Node.
+
+export const DEFAULT_BRANCH_PATTERN = '(\\d{6,})';
+export const MONDAY_BOARD_URL_BASE = 'https://pivot584586.monday.com/boards';
+export const DEFAULT_MONDAY_BOARD_ID = '4176868787';
+
+export interface BranchTaskMapping {
+  [branch: string]: {
+    taskId: string;
+    taskName: string;
+    boardId: string;
+    url: string;
+  };
+}
+
+export function getMondayTasksFile(root: string): string {
+  return path.join(root, '.vscode', 'monday-tasks.json');
+}
+
+export function readBranchTaskMappingsFile(root: string): BranchTaskMapping {
+  try {
+    const filePath = getMondayTasksFile(root);
+    if (fs.existsSync(filePath)) {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    }
+  } catch {
+    // ignore
+  }
+  return {};
+}
+
+export function extractTaskId(branch: string, pattern: string): string | null {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern || DEFAULT_BRANCH_PATTERN);
+  } catch {
+    regex = new RegExp(DEFAULT_BRANCH_PATTERN);
+  }
+  const match = branch.match(regex);
+  return match ? (match[1] ?? match[0]) : null;
+}
+
+/** The explicit mapping in .vscode/monday-tasks.json wins over the branch name. */
+export function resolveTaskId(branch: string, mappings: BranchTaskMapping, pattern: string): string | null {
+  const mapping = mappings[branch];
+  if (mapping?.taskId) return mapping.taskId;
+  return extractTaskId(branch, pattern);
+}
+
+export function getMondayTaskUrl(boardId: string, taskId: string): string {
+  return `${MONDAY_BOARD_URL_BASE}/${boardId}/pulses/${taskId}`;
+}
+
+// ========== Hook Files ==========
+
+// Everything the hooks need lives in the repo's git common dir, shared by all worktrees
+export const HOOK_DIR_NAME = 'toggl-track-auto';
+export const HOOK_SCRIPT_FILE = 'hook.js';
+export const HOOK_CONFIG_FILE = 'config.json';
+// Commit and push events the hooks leave for the extension to post
+export const MONDAY_COMMIT_QUEUE_FILE = 'toggl-monday-commits.jsonl';
+
+/** Settings the extension writes for the hooks, which can't read VS Code settings. */
+export interface HookConfig {
+  branchPattern: string;
+  boardId: string;
+  // VS Code's executable, which the stubs run with ELECTRON_RUN_AS_NODE=1 when `node` isn't on PATH
+  nodePath?: string;
+}
+
+// Queued by post-commit; the commit itself is read from git when the update is posted.
+// `type` is missing in events queued by older hooks.
+export interface QueuedCommit {
+  type?: 'commit';
+  taskId: string;
+  branch?: string;
+  hash: string;
+  committedAt: number;
+}
+
+// Queued by pre-push: the final commits the push sends for one branch.
+// Posted only once `head` shows up on the remote, since the push can still fail.
+export interface QueuedPush {
+  type: 'push';
+  taskId: string;
+  branch: string;
+  head: string;
+  // Remote name (or URL) and branch pushed to; missing in events queued by older hooks
+  remote?: string;
+  remoteBranch?: string;
+  commits: string[];
+  pushedAt: number;
+}
+
+export type QueuedEvent = QueuedCommit | QueuedPush;
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parsePrePushInput, prePushRevListArgs } from '../gitHook';
+
+const LOCAL = 'a'.repeat(40);
+const REMOTE = 'b'.repeat(40);
+const ZERO = '0'.repeat(40);
+
+test('parsePrePushInput reads pushed branches', () => {
+  const input = [
+    `refs/heads/feat/1234567-login ${LOCAL} refs/heads/feat/1234567-login ${REMOTE}`,
+    `refs/heads/feat/new ${LOCAL} refs/heads/feat/new ${ZERO}`,
+    '',
+  ].join('\n');
+  assert.deepEqual(parsePrePushInput(input), [
+    { branch: 'feat/1234567-login', localSha: LOCAL, remoteBranch: 'feat/1234567-login', remoteSha: REMOTE },
+    { branch: 'feat/new', localSha: LOCAL, remoteBranch: 'feat/new', remoteSha: null },
+  ]);
+});
+
+test('parsePrePushInput keeps the branch name on the remote', () => {
+  const input = `refs/heads/feat/1234567-login ${LOCAL} refs/heads/review/login ${ZERO}`;
+  assert.deepEqual(parsePrePushInput(input), [
+    { branch: 'feat/1234567-login', localSha: LOCAL, remoteBranch: 'review/login', remoteSha: null },
+  ]);
+});
+
+test('parsePrePushInput skips deletions and tags', () => {
+  const input = [
+    `(delete) ${ZERO} refs/heads/old ${REMOTE}`,
+    `refs/heads/old ${ZERO} refs/heads/old ${REMOTE}`,
+    `refs/tags/v1.0 ${LOCAL} refs/tags/v1.0 ${ZERO}`,
+  ].join('\n');
+  assert.deepEqual(parsePrePushInput(input), []);
+});
+
+test('prePushRevListArgs excludes every remote and the remote tip', () => {
+  assert.deepEqual(
+    prePushRevListArgs(LOCAL, REMOTE),
+    ['rev-list', '--reverse', '--no-merges', LOCAL, '--not', '--remotes', REMOTE]
+  );
+});
+
+test('prePushRevListArgs lists commits on no remote for a new branch', () => {
+  assert.deepEqual(prePushRevListArgs(LOCAL, null), ['rev-list', '--reverse', '--no-merges', LOCAL, '--not', '--remotes']);
+});
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { BranchTaskMapping, DEFAULT_BRANCH_PATTERN, extractTaskId, resolveTaskId } from '../taskResolver';
+
+test('extractTaskId uses the default pattern', () => {
+  assert.equal(extractTaskId('feat/1234567-login-page', DEFAULT_BRANCH_PATTERN), '1234567');
+  assert.equal(extractTaskId('feat/1234567-login-page', ''), '1234567');
+  assert.equal(extractTaskId('fix/12345-too-short', DEFAULT_BRANCH_PATTERN), null);
+});
+
+test('extractTaskId falls back to the default pattern when the pattern is invalid', () => {
+  assert.equal(extractTaskId('feat/1234567-login-page', '(\\d+'), '1234567');
+  assert.equal(extractTaskId('main', '[unclosed'), null);
+});
+
+test('extractTaskId returns the whole match when the pattern has no capture group', () => {
+  assert.equal(extractTaskId('feat/PROJ-42-login', 'PROJ-\\d+'), 'PROJ-42');
+  assert.equal(extractTaskId('feat/PROJ-42-login', 'PROJ-(\\d+)'), '42');
+});
+
+test('resolveTaskId prefers the branch mapping over the pattern', () => {
+  const mappings: BranchTaskMapping = {
+    'feat/1234567-login-page': { taskId: '7654321', taskName: 'Login', boardId: '1', url: 'https://example.com' },
+  };
+  assert.equal(resolveTaskId('feat/1234567-login-page', mappings, DEFAULT_BRANCH_PATTERN), '7654321');
+  assert.equal(resolveTaskId('feat/2345678-other', mappings, DEFAULT_BRANCH_PATTERN), '2345678');
+  assert.equal(resolveTaskId('main', mappings, DEFAULT_BRANCH_PATTERN), null);
+});